@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getEmergencySquawks } from '../../../utils/emergency-monitor';
+import { VatsimFeedError } from '../../../utils/vatsim-decoder';
+
+// Answered from the live feed on every request, never prerendered
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const result = await getEmergencySquawks();
+    return NextResponse.json(result, { headers: { 'Cache-Control': 'no-cache' } });
+  } catch (error) {
+    console.error('Error scanning for emergency squawks:', error);
+    if (error instanceof VatsimFeedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch VATSIM data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { lookupPilotByCallsign } from '../../../../../utils/pilot-lookup';
+import { VatsimFeedError } from '../../../../../utils/vatsim-decoder';
+import { etagMatches, feedEtag, getVatsimSnapshot } from '../../../../../utils/vatsim-feed';
+
+// Answered from the live feed on every request, never prerendered
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { callsign: string } }
+) {
+  try {
+    // Nothing about the flight can have changed until the next feed update
+    const snapshot = await getVatsimSnapshot();
+    if (etagMatches(request.headers.get('If-None-Match'), snapshot.etag)) {
+      return new NextResponse(null, { status: 304, headers: { 'ETag': snapshot.etag, 'Cache-Control': 'no-cache' } });
+    }
+
+    const result = await lookupPilotByCallsign(params.callsign);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: `No pilot online with callsign ${params.callsign.toUpperCase()}` },
+        { status: 404, headers: { 'Cache-Control': 'no-cache' } }
+      );
+    }
+
+    return NextResponse.json(result, {
+      headers: { 'ETag': feedEtag(result.updateTimestamp), 'Cache-Control': 'no-cache' }
+    });
+  } catch (error) {
+    console.error('Error looking up pilot by callsign:', error);
+    if (error instanceof VatsimFeedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch VATSIM data' },
+      { status: 500 }
+    );
+  }
+}
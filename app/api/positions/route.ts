@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { NetworkPositionsResult } from '../../../types/vatsim';
+import { VatsimFeedError } from '../../../utils/vatsim-decoder';
+import { etagMatches, getVatsimSnapshot } from '../../../utils/vatsim-feed';
+
+// Answered from the live feed on every request, never prerendered
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const snapshot = await getVatsimSnapshot();
+    const headers = { 'ETag': snapshot.etag, 'Cache-Control': 'no-cache' };
+    if (etagMatches(request.headers.get('If-None-Match'), snapshot.etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    const result: NetworkPositionsResult = {
+      positions: snapshot.data.pilots.map(({ callsign, latitude, longitude }) => ({ callsign, latitude, longitude })),
+      updateTimestamp: snapshot.updateTimestamp
+    };
+    return NextResponse.json(result, { headers });
+  } catch (error) {
+    console.error('Error listing pilot positions:', error);
+    if (error instanceof VatsimFeedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch VATSIM data' },
+      { status: 500 }
+    );
+  }
+}
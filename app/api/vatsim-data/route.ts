@@ -1,29 +1,37 @@
 import { NextResponse } from 'next/server';
+import { etagMatches, getVatsimSnapshot } from '../../../utils/vatsim-feed';
+import { VatsimFeedError } from '../../../utils/vatsim-decoder';
 
-const VATSIM_DATA_URL = 'https://data.vatsim.net/v3/vatsim-data.json';
+// Answered from the live feed on every request, never prerendered
+export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const response = await fetch(VATSIM_DATA_URL, {
-      headers: {
-        'User-Agent': 'VATSIM-FPN-Lookup-App/1.0'
-      },
-      // Cache for 15 seconds to match VATSIM's update frequency
-      next: { revalidate: 15 }
-    });
+    const snapshot = await getVatsimSnapshot();
+    const headers = {
+      'ETag': snapshot.etag,
+      'Last-Modified': new Date(snapshot.updateTimestamp).toUTCString(),
+      // Clients must revalidate, but a matching ETag costs them nothing but a 304
+      'Cache-Control': 'no-cache'
+    };
 
-    if (!response.ok) {
-      throw new Error('Failed to fetch VATSIM data');
+    if (etagMatches(request.headers.get('If-None-Match'), snapshot.etag)) {
+      return new NextResponse(null, { status: 304, headers });
     }
 
-    const data = await response.json();
-    
-    return NextResponse.json(data);
+    return NextResponse.json(snapshot.data, { headers });
   } catch (error) {
     console.error('Error fetching VATSIM data:', error);
+    if (error instanceof VatsimFeedError) {
+      // Upstream schema changed - say exactly what broke instead of serving bad data
+      return NextResponse.json(
+        { error: error.message },
+        { status: 502 }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to fetch VATSIM data' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { WatchlistEntry } from '../../../types/vatsim';
+import { lookupWatchlist } from '../../../utils/pilot-lookup';
+import { VatsimFeedError } from '../../../utils/vatsim-decoder';
+import { etagMatches, feedEtag, getVatsimSnapshot } from '../../../utils/vatsim-feed';
+
+// Answered from the live feed on every request, never prerendered
+export const dynamic = 'force-dynamic';
+
+// Per request; the client splits longer watchlists into batches of this size
+const MAX_ENTRIES = 50;
+
+// ?entries=cid:1234567,callsign:BAW123
+function parseEntries(value: string | null): WatchlistEntry[] | null {
+  if (!value) return [];
+
+  const entries: WatchlistEntry[] = [];
+  for (const item of value.split(',')) {
+    const [kind, raw = ''] = item.split(':');
+    const target = raw.trim().toUpperCase();
+    if (kind === 'cid' && /^\d+$/.test(target)) {
+      entries.push({ kind, value: target, nickname: '', notifications: [] });
+    } else if (kind === 'callsign' && /^[A-Z0-9]+$/.test(target)) {
+      entries.push({ kind, value: target, nickname: '', notifications: [] });
+    } else {
+      return null;
+    }
+  }
+  return entries;
+}
+
+export async function GET(request: Request) {
+  const entries = parseEntries(new URL(request.url).searchParams.get('entries'));
+  if (!entries || entries.length > MAX_ENTRIES) {
+    return NextResponse.json(
+      { error: `entries must be up to ${MAX_ENTRIES} comma-separated cid:<digits> or callsign:<callsign> items` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Nothing on the list can have changed until the next feed update
+    const snapshot = await getVatsimSnapshot();
+    if (etagMatches(request.headers.get('If-None-Match'), snapshot.etag)) {
+      return new NextResponse(null, { status: 304, headers: { 'ETag': snapshot.etag, 'Cache-Control': 'no-cache' } });
+    }
+
+    const result = await lookupWatchlist(entries);
+    return NextResponse.json(result, {
+      headers: { 'ETag': feedEtag(result.updateTimestamp), 'Cache-Control': 'no-cache' }
+    });
+  } catch (error) {
+    console.error('Error looking up watchlist:', error);
+    if (error instanceof VatsimFeedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Failed to fetch VATSIM data' },
+      { status: 500 }
+    );
+  }
+}
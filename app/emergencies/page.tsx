@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { EmergencySquawk } from '../../types/vatsim';
+import { fetchEmergencySquawks } from '../../utils/vatsim-client';
+
+// Leaflet doesn't work with SSR
+const EmergencyMap = dynamic(() => import('../../components/EmergencyMap'), {
+  ssr: false,
+  loading: () => <div className="w-full h-96 bg-gray-100 rounded-lg flex items-center justify-center">Loading map...</div>
+});
+
+const SQUAWK_BADGE_STYLES: Record<string, string> = {
+  '7500': 'bg-purple-100 text-purple-800',
+  '7600': 'bg-yellow-100 text-yellow-800',
+  '7700': 'bg-red-100 text-red-800'
+};
+
+// "3 min", "1 h 12 min"
+const formatElapsed = (since: string, now: Date): string => {
+  const minutes = Math.max(0, Math.floor((now.getTime() - Date.parse(since)) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+export default function EmergencyMonitor() {
+  const [emergencies, setEmergencies] = useState<EmergencySquawk[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [now, setNow] = useState(new Date());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        const result = await fetchEmergencySquawks();
+        setEmergencies(result.emergencies);
+        setLastUpdated(new Date(result.updateTimestamp));
+        setError('');
+      } catch (err) {
+        console.error('Error fetching emergency squawks:', err);
+        setError(err instanceof Error ? err.message : 'Could not load VATSIM data');
+      }
+      setNow(new Date());
+    };
+
+    refresh();
+    const interval = setInterval(refresh, 15000); // The feed only updates every 15 seconds
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="container mx-auto px-2 sm:px-4 py-4 sm:py-8 max-w-4xl">
+      <div className="text-center mb-6 sm:mb-8">
+        <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-2">
+          Emergency Squawk Monitor
+        </h1>
+        <p className="text-gray-600 text-sm sm:text-base">
+          Every pilot on the network squawking 7500, 7600 or 7700
+        </p>
+        {lastUpdated && (
+          <p className="text-xs text-gray-500 mt-2">Feed update {lastUpdated.toUTCString().slice(17, 25)}Z</p>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-100 border border-red-300 text-red-700 rounded-md text-center">
+          {error}
+        </div>
+      )}
+
+      <div className="mb-6">
+        <EmergencyMap emergencies={emergencies} />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-4 sm:p-6">
+        {emergencies.length === 0 ? (
+          <p className="text-center text-gray-600">No emergency squawks on the network right now.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-700 border-b">
+                  <th className="py-2 pr-3">Callsign</th>
+                  <th className="py-2 pr-3">Squawk</th>
+                  <th className="py-2 pr-3">Position</th>
+                  <th className="py-2 pr-3">FIR</th>
+                  <th className="py-2 pr-3">Altitude</th>
+                  <th className="py-2">Since</th>
+                </tr>
+              </thead>
+              <tbody>
+                {emergencies.map(emergency => (
+                  <tr key={emergency.callsign} className="border-b last:border-0 text-gray-900">
+                    <td className="py-2 pr-3">
+                      <div className="font-medium">{emergency.callsign}</div>
+                      <div className="text-xs text-gray-500">
+                        {emergency.aircraft}
+                        {emergency.departure && emergency.arrival && ` ${emergency.departure} → ${emergency.arrival}`}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span className={`text-xs px-2 py-1 rounded-full font-medium ${SQUAWK_BADGE_STYLES[emergency.code]}`}>
+                        {emergency.code}
+                      </span>
+                      <div className="text-xs text-gray-500 mt-1">{emergency.meaning}</div>
+                    </td>
+                    <td className="py-2 pr-3 font-mono text-xs">
+                      {emergency.latitude.toFixed(2)}, {emergency.longitude.toFixed(2)}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {emergency.currentFIR ? `${emergency.currentFIR.name} (${emergency.currentFIR.id})` : '—'}
+                    </td>
+                    <td className="py-2 pr-3">{emergency.altitude.toLocaleString()} ft</td>
+                    <td className="py-2">{formatElapsed(emergency.firstSeen, now)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Navigation */}
+      <div className="mt-8 text-center">
+        <a
+          href="/"
+          className="inline-flex items-center gap-2 px-4 py-2 text-blue-600 hover:text-blue-700 transition-colors"
+        >
+          ← Back to Flight Lookup
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,21 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import dynamic from 'next/dynamic';
-import { VatsimPilot, VatsimAirport, MetarData, VatsimATIS, AtisData } from '../types/vatsim';
+import { VatsimPilot, VatsimAirport, MetarData, AtisData, AirportAtcStatus, PilotLookupResult, CurrentFIR, ResolvedRoute, DecodedRemarks, DecodedEquipment, PositionSample, FlightPhaseInfo, FlightPhase, EtaConfidence, EtaEstimate, FlightSchedule, ScheduleStatus, PrefileLookupResult, WatchlistEntry, SquawkSeverity, SquawkValidation, ControllerCoverage, CoveringStation, PilotEnrichment, RadioStatus } from '../types/vatsim';
 import { parseMetar } from 'metar-taf-parser';
-import { getAirportByIcao } from '../utils/vatspy-parser';
+import { fetchPilotByCallsign, fetchPilotByCID, fetchPrefileByCallsign, fetchPrefileByCID } from '../utils/vatsim-client';
+import { formatEta } from '../utils/eta';
+import { getAircraftType } from '../utils/aircraft-types';
+import { recordPosition } from '../utils/position-history';
+import { FLIGHT_PHASE_LABELS } from '../utils/flight-phase';
+import RouteDisplay from '../components/RouteDisplay';
+import VerticalProfile from '../components/VerticalProfile';
+import PrefileCard from '../components/PrefileCard';
+import Watchlist from '../components/Watchlist';
+import AirportAtc from '../components/AirportAtc';
+import FIRSequence from '../components/FIRSequence';
+import RemarksFields from '../components/RemarksFields';
 
 // Dynamic import for map component (Leaflet doesn't work with SSR)
 const FlightMap = dynamic(() => import('../components/FlightMap'), {
@@ -12,62 +23,161 @@ const FlightMap = dynamic(() => import('../components/FlightMap'), {
   loading: () => <div className="w-full h-96 bg-gray-100 rounded-lg flex items-center justify-center">Loading map...</div>
 });
 
+const PHASE_BADGE_STYLES: Record<FlightPhase, string> = {
+  'preflight': 'bg-gray-100 text-gray-800',
+  'taxi-out': 'bg-yellow-100 text-yellow-800',
+  'takeoff': 'bg-orange-100 text-orange-800',
+  'climb': 'bg-blue-100 text-blue-800',
+  'cruise': 'bg-indigo-100 text-indigo-800',
+  'step-climb': 'bg-blue-100 text-blue-800',
+  'step-descent': 'bg-purple-100 text-purple-800',
+  'descent': 'bg-purple-100 text-purple-800',
+  'approach': 'bg-pink-100 text-pink-800',
+  'landed': 'bg-green-100 text-green-800',
+  'taxi-in': 'bg-yellow-100 text-yellow-800',
+  'arrived': 'bg-green-100 text-green-800'
+};
+
+const ETA_CONFIDENCE_STYLES: Record<EtaConfidence, string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700'
+};
+
+const ETA_BASIS_LABELS: Record<EtaEstimate['basis'], string> = {
+  'route': 'Distance measured along the filed route',
+  'direct': 'Direct distance to the destination',
+  'filed-time': 'Filed enroute time'
+};
+
+// "14:05Z"
+const formatUtcTime = (iso: string): string => new Date(iso).toUTCString().slice(17, 22) + 'Z';
+
+const SQUAWK_SEVERITY_STYLES: Record<SquawkSeverity, string> = {
+  ok: 'bg-green-100 text-green-800',
+  advisory: 'bg-gray-100 text-gray-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  alert: 'bg-red-100 text-red-800'
+};
+
+const SQUAWK_SEVERITY_LABELS: Record<SquawkSeverity, string> = {
+  ok: 'Squawk OK',
+  advisory: 'Advisory',
+  warning: 'Check squawk',
+  alert: 'Emergency'
+};
+
+// "EDMM_ZUG_CTR – Muenchen ACC (Zugspitze) – 132.600 (Jane Doe)"
+const formatStation = (station: CoveringStation): string =>
+  `${station.callsign} – ${station.name} – ${station.frequency}${station.controllerName ? ` (${station.controllerName})` : ''}`;
+
+const SCHEDULE_STATUS_STYLES: Record<ScheduleStatus, string> = {
+  'scheduled': 'bg-gray-100 text-gray-800',
+  'on-time': 'bg-green-100 text-green-800',
+  'delayed': 'bg-red-100 text-red-800',
+  'early': 'bg-blue-100 text-blue-800',
+  'unknown': 'bg-gray-100 text-gray-800'
+};
+
+// "+25 min", "-5 min", "on time"
+const formatDelay = (minutes: number): string =>
+  minutes === 0 ? 'on time' : `${minutes > 0 ? '+' : ''}${minutes} min`;
+
+const formatScheduleStatus = (schedule: FlightSchedule): string => {
+  const delay = schedule.arrivalDelay ?? schedule.departureDelay;
+  switch (schedule.status) {
+    case 'delayed':
+      return `Delayed ${delay} min`;
+    case 'early':
+      return `Early ${delay !== null ? -delay : 0} min`;
+    case 'on-time':
+      return 'On time';
+    default:
+      return 'Scheduled';
+  }
+};
+
 export default function Home() {
   const [callsign, setCallsign] = useState('');
   const [pilot, setPilot] = useState<VatsimPilot | null>(null);
-  const [activeFrequency, setActiveFrequency] = useState<string | null>(null);
+  const [radio, setRadio] = useState<RadioStatus | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [airports, setAirports] = useState<Record<string, VatsimAirport>>({});
   const [autoRefresh, setAutoRefresh] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Callsign of the flight on screen, read by async work that finishes after a new search
+  const selectedCallsignRef = useRef<string | null>(null);
   const [dataChanges, setDataChanges] = useState<{[key: string]: boolean}>({});
   const [metarData, setMetarData] = useState<Record<string, MetarData>>({});
   const [showDecodedMetar, setShowDecodedMetar] = useState(false);
   const [atisData, setAtisData] = useState<Record<string, AtisData>>({});
-  const [etaData, setEtaData] = useState<{ duration: string; etaUTC: string; etaLocal: string; distance: number } | null>(null);
-  const [currentFIR, setCurrentFIR] = useState<{ id: string; name: string; isOceanic: boolean } | null>(null);
-  const [trackingCID, setTrackingCID] = useState<string>('');
-  const [showCIDInput, setShowCIDInput] = useState<boolean>(false);
-
-  const fetchAirportInfo = async (icao: string): Promise<VatsimAirport | null> => {
-    if (airports[icao]) {
-      return airports[icao];
-    }
-
-    try {
-      const vatspyAirport = await getAirportByIcao(icao);
-      if (vatspyAirport) {
-        console.log(`Found airport data in VATSpy for ${icao}:`, vatspyAirport); // Debug log
-        const airport: VatsimAirport = {
-          icao: vatspyAirport.icao,
-          name: vatspyAirport.name,
-          city: undefined, // VATSpy doesn't have city data separate from name
-          country: undefined // VATSpy doesn't have country data in airport section
-        };
-        setAirports(prev => ({ ...prev, [icao]: airport }));
-        return airport;
-      } else {
-        console.log(`Airport ${icao} not found in VATSpy data`);
-        // Fallback: create a basic airport entry with just the ICAO code
-        const fallbackAirport: VatsimAirport = {
-          icao: icao,
-          name: icao, // Use ICAO as name when not found
-          city: undefined,
-          country: undefined
-        };
-        setAirports(prev => ({ ...prev, [icao]: fallbackAirport }));
-        return fallbackAirport;
+  const [etaData, setEtaData] = useState<ReturnType<typeof formatEta> | null>(null);
+  const [currentFIR, setCurrentFIR] = useState<CurrentFIR | null>(null);
+  const [filedRoute, setFiledRoute] = useState<ResolvedRoute | null>(null);
+  const [decodedRemarks, setDecodedRemarks] = useState<DecodedRemarks | null>(null);
+  const [equipment, setEquipment] = useState<DecodedEquipment | null>(null);
+  const [positionHistory, setPositionHistory] = useState<PositionSample[]>([]);
+  const [flightPhase, setFlightPhase] = useState<FlightPhaseInfo | null>(null);
+  const [schedule, setSchedule] = useState<FlightSchedule | null>(null);
+  const [squawkValidation, setSquawkValidation] = useState<SquawkValidation | null>(null);
+  const [coverage, setCoverage] = useState<ControllerCoverage | null>(null);
+  const [airportAtc, setAirportAtc] = useState<PilotEnrichment['airportAtc'] | null>(null);
+  const [staffedFIRs, setStaffedFIRs] = useState<string[]>([]);
+  const [firSequence, setFirSequence] = useState<PilotEnrichment['firSequence']>(null);
+  const [prefile, setPrefile] = useState<PrefileLookupResult | null>(null);
+  // Read after mount; navigator doesn't exist while the page is prerendered
+  const [networkInfo, setNetworkInfo] = useState<{ online: boolean; mobile: boolean } | null>(null);
+
+  // Recording is async; skip the result if another flight was opened meanwhile
+  const showPositionHistory = useCallback((flight: VatsimPilot) => {
+    recordPosition(flight).then(history => {
+      if (selectedCallsignRef.current === flight.callsign) {
+        setPositionHistory(history);
       }
-    } catch (error) {
-      console.log(`Could not fetch airport info from VATSpy for ${icao}:`, error);
+    });
+  }, []);
+
+  // Apply the server-computed enrichment that comes with every pilot lookup
+  const applyEnrichment = useCallback((result: PilotLookupResult) => {
+    const { departure, arrival, alternate, currentFIR, radio, eta, route, remarks, equipment, phase, schedule, squawk, coverage, staffedFIRs, firSequence, airportAtc } = result.enrichment;
+    const resolvedAirports = [departure, arrival, alternate].filter((airport): airport is VatsimAirport => airport !== null);
+    if (resolvedAirports.length > 0) {
+      setAirports(prev => {
+        const next = { ...prev };
+        for (const airport of resolvedAirports) {
+          next[airport.icao] = airport;
+        }
+        return next;
+      });
     }
-    
-    return null;
-  };
+    setCurrentFIR(currentFIR);
+    setRadio(radio);
+    setEtaData(eta ? formatEta(eta) : null);
+    setFiledRoute(route);
+    setDecodedRemarks(remarks);
+    setEquipment(equipment);
+    setFlightPhase(phase);
+    setSchedule(schedule);
+    setSquawkValidation(squawk);
+    setCoverage(coverage);
+    setStaffedFIRs(staffedFIRs);
+    setFirSequence(firSequence);
+    setAirportAtc(airportAtc);
+
+    // ATIS broadcasts come with the airport ATC status
+    const broadcasts: Record<string, AtisData> = {};
+    const addBroadcast = (icao: string | undefined, status: AirportAtcStatus | null) => {
+      if (!icao) return;
+      broadcasts[icao] = status?.atis ?? { icao: icao.toUpperCase(), atis: 'ATIS Station offline', time: result.updateTimestamp };
+    };
+    addBroadcast(result.pilot.flight_plan?.departure, airportAtc.departure);
+    addBroadcast(result.pilot.flight_plan?.arrival, airportAtc.arrival);
+    setAtisData(prev => ({ ...prev, ...broadcasts }));
+  }, []);
 
-  const fetchMetarData = async (icao: string): Promise<MetarData | null> => {
+  const fetchMetarData = useCallback(async (icao: string): Promise<MetarData | null> => {
     if (metarData[icao]) {
       return metarData[icao];
     }
@@ -109,61 +219,7 @@ export default function Home() {
     }
     
     return null;
-  };
-
-  const fetchAtisData = async (icao: string): Promise<AtisData | null> => {
-    if (atisData[icao]) {
-      return atisData[icao];
-    }
-
-    try {
-      const response = await fetch('https://data.vatsim.net/v3/vatsim-data.json');
-      if (response.ok) {
-        const data = await response.json();
-        const controllers = data.atis || [];
-        
-        // Look for ATIS stations matching the ICAO code
-        // Common patterns: ICAO_ATIS, ICAO_A_ATIS, ICAO_D_ATIS
-        const atisStations = controllers.filter((controller: VatsimATIS) => {
-          const callsign = controller.callsign.toUpperCase();
-          const icaoUpper = icao.toUpperCase();
-          return callsign.includes(`${icaoUpper}_ATIS`) || 
-                 callsign.includes(`${icaoUpper}_A_ATIS`) || 
-                 callsign.includes(`${icaoUpper}_D_ATIS`);
-        });
-
-        let atisInfo: AtisData;
-        
-        if (atisStations.length > 0) {
-          const station = atisStations[0]; // Use the first matching station
-          atisInfo = {
-            icao: icao.toUpperCase(),
-            atis: station.text_atis ? station.text_atis.join(' ') : 'ATIS available but no text provided',
-            callsign: station.callsign,
-            frequency: station.frequency,
-            time: new Date().toISOString()
-          };
-        } else {
-          atisInfo = {
-            icao: icao.toUpperCase(),
-            atis: 'ATIS Station offline',
-            time: new Date().toISOString()
-          };
-        }
-        
-        setAtisData(prev => ({ ...prev, [icao]: atisInfo }));
-        return atisInfo;
-      }
-    } catch (error) {
-      console.log(`Could not fetch ATIS for ${icao}:`, error);
-    }
-    
-    return {
-      icao: icao.toUpperCase(),
-      atis: 'ATIS Station offline',
-      time: new Date().toISOString()
-    };
-  };
+  }, [metarData]);
 
   const formatAirportDisplay = (icao: string): string => {
     const airport = airports[icao];
@@ -202,78 +258,8 @@ export default function Home() {
     return { category: 'VFR', color: 'text-green-700', bg: 'bg-green-100 border-green-200' };
   };
 
-  // ETA Calculation Functions
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 3440.065; // Earth's radius in nautical miles
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c; // Distance in nautical miles
-  };
-
-  const calculateETA = async (pilot: VatsimPilot): Promise<{ duration: string; etaUTC: string; etaLocal: string; distance: number } | null> => {
-    if (!pilot.flight_plan?.arrival || pilot.groundspeed <= 0) return null;
-
-    try {
-      // Get arrival airport coordinates
-      const arrivalAirport = await getAirportByIcao(pilot.flight_plan.arrival);
-      if (!arrivalAirport || !arrivalAirport.latitude || !arrivalAirport.longitude) return null;
-
-      // Calculate distance to destination
-      const distance = calculateDistance(
-        pilot.latitude,
-        pilot.longitude,
-        arrivalAirport.latitude,
-        arrivalAirport.longitude
-      );
-
-      // Calculate time in hours
-      const timeHours = distance / pilot.groundspeed;
-      
-      // Convert to hours and minutes for duration display
-      const hours = Math.floor(timeHours);
-      const minutes = Math.round((timeHours - hours) * 60);
-
-      // Format duration string
-      let durationString = '';
-      if (hours > 0) {
-        durationString = `${hours}h ${minutes}m`;
-      } else {
-        durationString = `${minutes}m`;
-      }
-
-      // Calculate actual arrival times
-      const now = new Date();
-      const arrivalTime = new Date(now.getTime() + (timeHours * 60 * 60 * 1000));
-
-      // Format UTC time
-      const etaUTC = arrivalTime.toUTCString().slice(17, 22) + 'Z'; // e.g., "15:45Z"
-      
-      // Format local time with timezone
-      const etaLocal = arrivalTime.toLocaleTimeString([], { 
-        hour: '2-digit', 
-        minute: '2-digit',
-        hour12: false,
-        timeZoneName: 'short'
-      });
-
-      return { 
-        duration: durationString, 
-        etaUTC, 
-        etaLocal, 
-        distance: Math.round(distance) 
-      };
-    } catch (error) {
-      console.error('Error calculating ETA:', error);
-      return null;
-    }
-  };
-
   const formatETADisplay = (duration: string, distance: number): string => {
-    return `${duration} (${distance} nm)`;
+    return distance > 0 ? `${duration} (${distance} nm)` : duration;
   };
 
   const refreshMetarData = async () => {
@@ -298,10 +284,6 @@ export default function Home() {
             }));
           }
         }
-        
-        // Refresh ATIS
-        await fetchAtisData(icao);
-        
       } catch (error) {
         console.error(`Error fetching weather data for ${icao}:`, error);
       }
@@ -315,79 +297,51 @@ export default function Home() {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout for refresh
       
-      const response = await fetch('https://data.vatsim.net/v3/vatsim-data.json', {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Cache-Control': 'no-cache',
-        },
-        signal: controller.signal,
-        mode: 'cors',
-        credentials: 'omit'
-      });
+      const result = await fetchPilotByCallsign(currentCallsign, controller.signal);
       
       clearTimeout(timeoutId);
       
-      if (response.ok) {
-        const data = await response.json();
-        
-        if (!data || !data.pilots) {
-          console.error('Invalid refresh data received');
-          return;
+      if (result) {
+        const foundPilot = result.pilot;
+
+        // Detect changes in key flight data
+        const changes: {[key: string]: boolean} = {};
+        if (pilot) {
+          changes.altitude = pilot.altitude !== foundPilot.altitude;
+          changes.groundspeed = pilot.groundspeed !== foundPilot.groundspeed;
+          changes.heading = pilot.heading !== foundPilot.heading;
+          changes.transponder = pilot.transponder !== foundPilot.transponder;
         }
         
-        const foundPilot = data.pilots.find((p: VatsimPilot) => 
-          p.callsign.toUpperCase() === currentCallsign.toUpperCase()
-        );
-
-        if (foundPilot) {
-          // Detect changes in key flight data
-          const changes: {[key: string]: boolean} = {};
-          if (pilot) {
-            changes.altitude = pilot.altitude !== foundPilot.altitude;
-            changes.groundspeed = pilot.groundspeed !== foundPilot.groundspeed;
-            changes.heading = pilot.heading !== foundPilot.heading;
-            changes.transponder = pilot.transponder !== foundPilot.transponder;
-          }
-          
-          console.log(`Data refresh for ${currentCallsign}:`, {
-            altitude: `${pilot?.altitude} → ${foundPilot.altitude}`,
-            groundspeed: `${pilot?.groundspeed} → ${foundPilot.groundspeed}`,
-            heading: `${pilot?.heading} → ${foundPilot.heading}`,
-            changes
-          });
-          
-          setPilot(foundPilot);
-          setDataChanges(changes);
-          setLastUpdated(new Date());
-          
-          // Update FIR if position changed
-          if (changes.altitude || changes.groundspeed || changes.heading) {
-            const fir = await detectCurrentFIR(foundPilot);
-            setCurrentFIR(fir);
-          }
-          
-          // Update frequency periodically
-          const frequency = await fetchActiveFrequency(foundPilot.callsign);
-          setActiveFrequency(frequency);
-          
-          // Clear change indicators after 2 seconds
-          setTimeout(() => {
-            setDataChanges({});
-          }, 2000);
-        } else {
-          // Pilot went offline
-          setAutoRefresh(false);
-          setError('Pilot is no longer online on VATSIM.');
-        }
+        console.log(`Data refresh for ${currentCallsign}:`, {
+          altitude: `${pilot?.altitude} → ${foundPilot.altitude}`,
+          groundspeed: `${pilot?.groundspeed} → ${foundPilot.groundspeed}`,
+          heading: `${pilot?.heading} → ${foundPilot.heading}`,
+          changes
+        });
+        
+        setPilot(foundPilot);
+        applyEnrichment(result);
+        showPositionHistory(foundPilot);
+        setDataChanges(changes);
+        setLastUpdated(new Date());
+        
+        // Clear change indicators after 2 seconds
+        setTimeout(() => {
+          setDataChanges({});
+        }, 2000);
+      } else {
+        // Pilot went offline
+        setAutoRefresh(false);
+        setError('Pilot is no longer online on VATSIM.');
       }
     } catch (err) {
       console.error('Error refreshing pilot data:', err);
     }
   };
 
-  const searchFlight = async () => {
-    if (!callsign.trim()) {
+  const searchFlight = async (target: string = callsign) => {
+    if (!target.trim()) {
       setError('Please enter a callsign');
       return;
     }
@@ -401,64 +355,45 @@ export default function Home() {
     setLoading(true);
     setError('');
     setPilot(null);
+    selectedCallsignRef.current = null;
+    setPrefile(null);
+    setPositionHistory([]);
 
     try {
-      // For static export, we need to fetch directly from VATSIM API
+      // The server looks the pilot up in the shared snapshot and sends back just this flight
       // Mobile debugging and simplified fetch
       console.log('Mobile Debug: Starting fetch request...');
       console.log('Mobile Debug: User Agent:', navigator.userAgent);
       console.log('Mobile Debug: Online status:', navigator.onLine);
       
-      const response = await fetch('https://data.vatsim.net/v3/vatsim-data.json', {
-        method: 'GET',
-        cache: 'no-cache'
-      });
-      
-      console.log('Mobile Debug: Response status:', response.status);
-      console.log('Mobile Debug: Response ok:', response.ok);
-      
-      if (!response.ok) {
-        throw new Error(`Network error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      if (!data || !data.pilots) {
-        throw new Error('Invalid data received from VATSIM API');
-      }
-      
-      const foundPilot = data.pilots.find((p: VatsimPilot) => 
-        p.callsign.toUpperCase() === callsign.toUpperCase()
-      );
+      const result = await fetchPilotByCallsign(target);
 
-      if (foundPilot) {
+      if (result) {
+        const foundPilot = result.pilot;
         setPilot(foundPilot);
+        selectedCallsignRef.current = foundPilot.callsign;
+        applyEnrichment(result);
+        showPositionHistory(foundPilot);
         setLastUpdated(new Date());
         setAutoRefresh(true);
         
-        // Detect current FIR
-        const fir = await detectCurrentFIR(foundPilot);
-        setCurrentFIR(fir);
-        
-        // Fetch active frequency
-        const frequency = await fetchActiveFrequency(foundPilot.callsign);
-        setActiveFrequency(frequency);
-        
-        // Fetch airport information for departure and arrival
+        // Fetch weather for departure and arrival
         if (foundPilot.flight_plan) {
           if (foundPilot.flight_plan.departure) {
-            fetchAirportInfo(foundPilot.flight_plan.departure);
             fetchMetarData(foundPilot.flight_plan.departure);
-            fetchAtisData(foundPilot.flight_plan.departure);
           }
           if (foundPilot.flight_plan.arrival) {
-            fetchAirportInfo(foundPilot.flight_plan.arrival);
             fetchMetarData(foundPilot.flight_plan.arrival);
-            fetchAtisData(foundPilot.flight_plan.arrival);
           }
         }
       } else {
-        setError('Flight not found. Make sure the callsign is correct and the pilot is currently online on VATSIM.');
+        // Not connected yet - show the filed flight plan if there is one
+        const prefiled = await fetchPrefileByCallsign(target);
+        if (prefiled) {
+          setPrefile(prefiled);
+        } else {
+          setError('Flight not found. Make sure the callsign is correct and the pilot is currently online on VATSIM.');
+        }
       }
     } catch (err) {
       console.log('Mobile Debug: Catch block triggered');
@@ -511,56 +446,39 @@ export default function Home() {
     setLoading(true);
     setError('');
     setPilot(null);
+    selectedCallsignRef.current = null;
+    setPrefile(null);
+    setPositionHistory([]);
 
     try {
-      const response = await fetch('https://data.vatsim.net/v3/vatsim-data.json', {
-        method: 'GET',
-        cache: 'no-cache'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Network error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      if (!data || !data.pilots) {
-        throw new Error('Invalid data received from VATSIM API');
-      }
-      
-      const foundPilot = data.pilots.find((p: VatsimPilot) => 
-        p.cid.toString() === cid.toString()
-      );
+      const result = await fetchPilotByCID(cid);
 
-      if (foundPilot) {
+      if (result) {
+        const foundPilot = result.pilot;
         setPilot(foundPilot);
+        selectedCallsignRef.current = foundPilot.callsign;
+        applyEnrichment(result);
+        showPositionHistory(foundPilot);
         setCallsign(foundPilot.callsign); // Update callsign field with found pilot's callsign
         setLastUpdated(new Date());
         setAutoRefresh(true);
         
-        // Detect current FIR
-        const fir = await detectCurrentFIR(foundPilot);
-        setCurrentFIR(fir);
-        
-        // Fetch active frequency
-        const frequency = await fetchActiveFrequency(foundPilot.callsign);
-        setActiveFrequency(frequency);
-        
-        // Fetch airport information for departure and arrival
+        // Fetch weather for departure and arrival
         if (foundPilot.flight_plan) {
           if (foundPilot.flight_plan.departure) {
-            fetchAirportInfo(foundPilot.flight_plan.departure);
             fetchMetarData(foundPilot.flight_plan.departure);
-            fetchAtisData(foundPilot.flight_plan.departure);
           }
           if (foundPilot.flight_plan.arrival) {
-            fetchAirportInfo(foundPilot.flight_plan.arrival);
             fetchMetarData(foundPilot.flight_plan.arrival);
-            fetchAtisData(foundPilot.flight_plan.arrival);
           }
         }
       } else {
-        setError(`No pilot found with CID ${cid}. Make sure the CID is correct and the pilot is currently online on VATSIM.`);
+        const prefiled = await fetchPrefileByCID(cid);
+        if (prefiled) {
+          setPrefile(prefiled);
+        } else {
+          setError(`No pilot found with CID ${cid}. Make sure the CID is correct and the pilot is currently online on VATSIM.`);
+        }
       }
     } catch (err) {
       console.error('CID search error:', err);
@@ -586,181 +504,53 @@ export default function Home() {
     }
   };
 
-  // Point-in-polygon algorithm to check if a point is inside a polygon
-  const isPointInPolygon = (point: [number, number], polygon: number[][][]): boolean => {
-    const [lng, lat] = point;
-    
-    // Check all rings in the polygon (first ring is exterior, others are holes)
-    for (let ringIndex = 0; ringIndex < polygon.length; ringIndex++) {
-      const ring = polygon[ringIndex];
-      let inside = false;
-      
-      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
-        const [xi, yi] = ring[i];
-        const [xj, yj] = ring[j];
-        
-        if (((yi > lat) !== (yj > lat)) && (lng < (xj - xi) * (lat - yi) / (yj - yi) + xi)) {
-          inside = !inside;
-        }
-      }
-      
-      // For exterior ring (index 0), we want to be inside
-      // For hole rings (index > 0), we want to be outside
-      if (ringIndex === 0 && !inside) {
-        return false; // Not in exterior ring
-      }
-      if (ringIndex > 0 && inside) {
-        return false; // Inside a hole
-      }
-    }
-    
-    return true;
-  };
-
-  // Check if point is in MultiPolygon
-  const isPointInMultiPolygon = (point: [number, number], multiPolygon: number[][][][]): boolean => {
-    return multiPolygon.some(polygon => isPointInPolygon(point, polygon));
-  };
-
-  // Fetch active frequency for the pilot
-  const fetchActiveFrequency = async (callsign: string): Promise<string | null> => {
-    try {
-      const response = await fetch('https://data.vatsim.net/v3/transceivers-data.json');
-      if (!response.ok) {
-        console.warn('Failed to fetch transceivers data:', response.status);
-        return null;
-      }
-      
-      const data = await response.json();
-      const pilotTransceiver = data.find((entry: any) => 
-        entry.callsign.toUpperCase() === callsign.toUpperCase()
-      );
-      
-      if (pilotTransceiver && pilotTransceiver.transceivers && pilotTransceiver.transceivers.length > 0) {
-        // Get the first transceiver frequency and format it
-        const frequency = pilotTransceiver.transceivers[0].frequency;
-        // Convert from Hz to MHz with proper formatting (e.g., 122800000 -> 122.800)
-        const formattedFreq = (frequency / 1000000).toFixed(3);
-        return formattedFreq;
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Error fetching active frequency:', error);
-      return null;
-    }
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    searchFlight();
   };
 
-  // Parse VATSpy.dat to get FIR names
-  const parseFIRNames = async (): Promise<Map<string, string>> => {
+  // A prefiled flight switches to live tracking as soon as that CID logs on
+  const checkPrefileConnected = useCallback(async (cid: number) => {
     try {
-      const response = await fetch('/vatspy-data/VATSpy.dat');
-      const text = await response.text();
-      const lines = text.split('\n');
-      
-      const firNames = new Map<string, string>();
-      let inFIRSection = false;
-      
-      for (const line of lines) {
-        const trimmedLine = line.trim();
-        
-        if (trimmedLine === '[FIRs]') {
-          inFIRSection = true;
-          continue;
-        }
-        
-        if (trimmedLine.startsWith('[') && trimmedLine !== '[FIRs]') {
-          inFIRSection = false;
-          continue;
-        }
-        
-        if (inFIRSection && trimmedLine && !trimmedLine.startsWith(';')) {
-          const parts = trimmedLine.split('|');
-          if (parts.length >= 2) {
-            const firId = parts[0];
-            const firName = parts[1];
-            
-            // Only store the first occurrence (primary name) for each FIR ID
-            if (!firNames.has(firId)) {
-              firNames.set(firId, firName);
-            }
-          }
+      const result = await fetchPilotByCID(cid.toString());
+      if (!result) return;
+
+      setPrefile(null);
+      setPilot(result.pilot);
+      selectedCallsignRef.current = result.pilot.callsign;
+      applyEnrichment(result);
+      showPositionHistory(result.pilot);
+      setCallsign(result.pilot.callsign);
+      setLastUpdated(new Date());
+      setAutoRefresh(true);
+
+      const flightPlan = result.pilot.flight_plan;
+      for (const icao of [flightPlan?.departure, flightPlan?.arrival]) {
+        if (icao) {
+          fetchMetarData(icao);
         }
       }
-      
-      return firNames;
-    } catch (error) {
-      console.error('Error parsing VATSpy.dat:', error);
-      return new Map();
+    } catch (err) {
+      console.error('Error checking prefiled flight:', err);
     }
-  };
+  }, [applyEnrichment, showPositionHistory, fetchMetarData]);
 
-  // Detect which FIR the pilot is currently within
-  const detectCurrentFIR = async (pilot: VatsimPilot): Promise<{ id: string; name: string; isOceanic: boolean } | null> => {
-    try {
-      const [boundariesResponse, firNamesMap] = await Promise.all([
-        fetch('/vatspy-data/Boundaries.geojson'),
-        parseFIRNames()
-      ]);
-      
-      const data = await boundariesResponse.json();
-      const pilotPoint: [number, number] = [pilot.longitude, pilot.latitude];
-      
-      // Collect all matching FIRs
-      const matchingFIRs: { id: string; name: string; isOceanic: boolean }[] = [];
-      
-      for (const feature of data.features) {
-        let isMatch = false;
-        
-        if (feature.geometry.type === 'MultiPolygon') {
-          isMatch = isPointInMultiPolygon(pilotPoint, feature.geometry.coordinates);
-        } else if (feature.geometry.type === 'Polygon') {
-          isMatch = isPointInPolygon(pilotPoint, feature.geometry.coordinates);
-        }
-        
-        if (isMatch) {
-          const firId = feature.properties.id || 'Unknown FIR';
-          const firName = firNamesMap.get(firId) || firId;
-          
-          matchingFIRs.push({
-            id: firId,
-            name: firName,
-            isOceanic: feature.properties.oceanic === '1'
-          });
-        }
-      }
-      
-      // If no matches found
-      if (matchingFIRs.length === 0) {
-        return null;
-      }
-      
-      // Prioritize land-based FIRs over oceanic FIRs
-      const landBasedFIRs = matchingFIRs.filter(fir => !fir.isOceanic);
-      if (landBasedFIRs.length > 0) {
-        return landBasedFIRs[0]; // Return the first land-based FIR
-      }
-      
-      // If only oceanic FIRs found, return the first one
-      return matchingFIRs[0];
-      
-    } catch (error) {
-      console.error('Error detecting FIR:', error);
-      return null;
-    }
-  };
+  useEffect(() => {
+    if (!prefile) return;
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    searchFlight();
-  };
+    const interval = setInterval(() => {
+      checkPrefileConnected(prefile.prefile.cid);
+    }, 15000); // The feed only updates every 15 seconds
+
+    return () => clearInterval(interval);
+  }, [prefile, checkPrefileConnected]);
 
   // Auto-refresh effect
   useEffect(() => {
     if (autoRefresh && pilot) {
       refreshIntervalRef.current = setInterval(() => {
         refreshPilotData(pilot.callsign);
-      }, 1000); // Update every second
+      }, 15000); // The feed only updates every 15 seconds
     } else {
       if (refreshIntervalRef.current) {
         clearInterval(refreshIntervalRef.current);
@@ -775,19 +565,9 @@ export default function Home() {
     };
   }, [autoRefresh, pilot]);
 
-  // Calculate ETA when pilot data changes
   useEffect(() => {
-    const updateETA = async () => {
-      if (pilot && pilot.flight_plan?.arrival) {
-        const eta = await calculateETA(pilot);
-        setEtaData(eta);
-      } else {
-        setEtaData(null);
-      }
-    };
-
-    updateETA();
-  }, [pilot]);
+    setNetworkInfo({ online: navigator.onLine, mobile: /Mobile|Android|iPhone|iPad/.test(navigator.userAgent) });
+  }, []);
 
   // Cleanup on component unmount
   useEffect(() => {
@@ -798,125 +578,23 @@ export default function Home() {
     };
   }, []);
 
-  // Load saved CID from localStorage on page load (but don't auto-search)
-  useEffect(() => {
-    const savedCID = localStorage.getItem('trackingCID');
-    if (savedCID) {
-      setTrackingCID(savedCID);
-      // Don't auto-search, just load the CID for tracking
-    }
-  }, []);
-
-  const handleCIDSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (trackingCID.trim()) {
-      // Save CID to localStorage
-      localStorage.setItem('trackingCID', trackingCID.trim());
-      setShowCIDInput(false); // Close the input form
-    }
-  };
-
-  const goToTrackedFlight = () => {
-    if (trackingCID.trim()) {
-      searchFlightByCID(trackingCID.trim());
+  // Watchlist entries open in the flight view like a search
+  const openWatchlistEntry = (entry: WatchlistEntry) => {
+    if (entry.kind === 'cid') {
+      searchFlightByCID(entry.value);
+    } else {
+      setCallsign(entry.value);
+      searchFlight(entry.value);
     }
   };
 
-  const clearTrackingCID = () => {
-    setTrackingCID('');
-    localStorage.removeItem('trackingCID');
-    setShowCIDInput(false);
-  };
+  const aircraftInfo = pilot?.flight_plan ? getAircraftType(pilot.flight_plan.aircraft_short) : null;
 
   return (
     <div className="container mx-auto px-2 sm:px-4 py-4 sm:py-8 max-w-4xl">
-      {/* CID Tracking in top right corner */}
+      {/* Watchlist in top right corner */}
       <div className="fixed top-4 right-4 z-50">
-        {!showCIDInput && !trackingCID ? (
-          <button
-            onClick={() => setShowCIDInput(true)}
-            className="bg-blue-600 text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors shadow-lg"
-            title="Track a specific CID"
-          >
-            + Track CID
-          </button>
-        ) : (
-          <div className="bg-white border border-gray-300 rounded-lg shadow-lg p-3 min-w-[200px]">
-            {trackingCID && !showCIDInput ? (
-              <div className="space-y-2">
-                <div className="text-xs text-gray-600">Tracking CID:</div>
-                <div className="font-mono text-sm font-medium text-blue-600">{trackingCID}</div>
-                <div className="flex gap-2">
-                  <button
-                    onClick={goToTrackedFlight}
-                    className="flex-1 bg-blue-600 text-white px-2 py-1 rounded text-xs hover:bg-blue-700 transition-colors"
-                    disabled={loading}
-                  >
-                    �️ Go to Flight
-                  </button>
-                  <button
-                    onClick={() => setShowCIDInput(true)}
-                    className="bg-gray-500 text-white px-2 py-1 rounded text-xs hover:bg-gray-600 transition-colors"
-                    title="Edit CID"
-                  >
-                    ✏️
-                  </button>
-                  <button
-                    onClick={clearTrackingCID}
-                    className="bg-red-500 text-white px-2 py-1 rounded text-xs hover:bg-red-600 transition-colors"
-                    title="Stop tracking"
-                  >
-                    ✕
-                  </button>
-                </div>
-              </div>
-            ) : (
-              <form onSubmit={handleCIDSubmit} className="space-y-2">
-                <div className="text-xs text-gray-600">Enter CID to track:</div>
-                <input
-                  type="text"
-                  value={trackingCID}
-                  onChange={(e) => setTrackingCID(e.target.value)}
-                  placeholder="e.g. 1234567"
-                  className="w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-                  maxLength={10}
-                  pattern="[0-9]*"
-                  disabled={loading}
-                />
-                <div className="flex gap-2">
-                  <button
-                    type="submit"
-                    className="flex-1 bg-blue-600 text-white px-2 py-1 rounded text-xs hover:bg-blue-700 transition-colors"
-                    disabled={loading || !trackingCID.trim()}
-                  >
-                    Save CID
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => {
-                      if (trackingCID.trim()) {
-                        localStorage.setItem('trackingCID', trackingCID.trim());
-                        searchFlightByCID(trackingCID.trim());
-                        setShowCIDInput(false);
-                      }
-                    }}
-                    className="bg-green-600 text-white px-2 py-1 rounded text-xs hover:bg-green-700 transition-colors"
-                    disabled={loading || !trackingCID.trim()}
-                  >
-                    Save & Go
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setShowCIDInput(false)}
-                    className="bg-gray-500 text-white px-2 py-1 rounded text-xs hover:bg-gray-600 transition-colors"
-                  >
-                    Cancel
-                  </button>
-                </div>
-              </form>
-            )}
-          </div>
-        )}
+        <Watchlist onOpen={openWatchlistEntry} disabled={loading} />
       </div>
 
       <div className="text-center mb-6 sm:mb-8">
@@ -973,13 +651,19 @@ export default function Home() {
         </div>
         
         {/* Internal Tools */}
-        <div className="flex justify-center mt-4">
+        <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 justify-center mt-4">
           <a
             href="/metar"
             className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors shadow-sm"
           >
             🌤️ METAR Weather Lookup
           </a>
+          <a
+            href="/emergencies"
+            className="inline-flex items-center justify-center px-4 py-2 bg-red-600 text-white text-sm font-medium rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors shadow-sm"
+          >
+            🚨 Emergency Squawk Monitor
+          </a>
         </div>
       </div>
 
@@ -1045,14 +729,14 @@ export default function Home() {
       {/* Network Status Indicator (Mobile Debug) */}
       <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
         <div className="text-xs text-gray-600 text-center mb-2">
-          Network: {navigator.onLine ? '🟢 Online' : '🔴 Offline'} | 
-          Browser: {/Mobile|Android|iPhone|iPad/.test(navigator.userAgent) ? '📱 Mobile' : '💻 Desktop'}
+          Network: {networkInfo ? (networkInfo.online ? '🟢 Online' : '🔴 Offline') : '…'} | 
+          Browser: {networkInfo ? (networkInfo.mobile ? '📱 Mobile' : '💻 Desktop') : '…'}
         </div>
         <button
           onClick={async () => {
             try {
               console.log('API Test: Starting minimal fetch test...');
-              const response = await fetch('https://data.vatsim.net/v3/vatsim-data.json');
+              const response = await fetch('/api/vatsim-data', { cache: 'no-store' });
               console.log('API Test: Response received:', response.status, response.ok);
               const text = await response.text();
               console.log('API Test: Response length:', text.length);
@@ -1069,6 +753,8 @@ export default function Home() {
         </button>
       </div>
 
+      {prefile && !pilot && <PrefileCard result={prefile} />}
+
       {pilot && (
         <div className="bg-white rounded-lg shadow-md p-6">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">Flight Information</h2>
@@ -1076,7 +762,8 @@ export default function Home() {
           {/* Flight Map */}
           <div className="mb-8">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Flight Map</h3>
-            <FlightMap pilot={pilot} airports={airports} />
+            <FlightMap pilot={pilot} airports={airports} route={filedRoute} history={positionHistory} wakeCategory={equipment?.wakeCategory?.code} staffedFIRs={staffedFIRs} currentFIR={currentFIR?.id} />
+            <VerticalProfile pilot={pilot} route={filedRoute} history={positionHistory} phase={flightPhase?.phase} />
           </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -1087,6 +774,11 @@ export default function Home() {
                   <div>
                     <span className="font-medium text-gray-700">Callsign:</span>
                     <span className="ml-2 text-gray-900">{pilot.callsign}</span>
+                    {flightPhase && (
+                      <span className={`ml-2 text-xs px-2 py-1 rounded-full font-medium ${PHASE_BADGE_STYLES[flightPhase.phase]}`}>
+                        {FLIGHT_PHASE_LABELS[flightPhase.phase]}
+                      </span>
+                    )}
                   </div>
                   <div>
                     <span className="font-medium text-gray-700">Pilot Name:</span>
@@ -1098,18 +790,44 @@ export default function Home() {
                       dataChanges.transponder ? 'text-green-600 font-bold bg-green-50 px-2 py-1 rounded' : 'text-gray-900'
                     }`}>
                       {pilot.transponder}
-                      {pilot.flight_plan?.assigned_transponder && 
-                       pilot.flight_plan.assigned_transponder !== pilot.transponder &&
-                       pilot.flight_plan.assigned_transponder !== "0000" && (
-                        <span className="ml-2 text-orange-600">
-                          (Assigned: {pilot.flight_plan.assigned_transponder})
-                        </span>
-                      )}
                     </span>
+                    {squawkValidation?.assigned && (
+                      <span className="ml-2 text-gray-600">(Assigned: {squawkValidation.assigned})</span>
+                    )}
+                    {squawkValidation && (
+                      <span className={`ml-2 text-xs px-2 py-1 rounded-full font-medium ${SQUAWK_SEVERITY_STYLES[squawkValidation.severity]}`}>
+                        {SQUAWK_SEVERITY_LABELS[squawkValidation.severity]}
+                      </span>
+                    )}
+                    {squawkValidation && squawkValidation.issues.length > 0 && (
+                      <ul className="mt-1 text-sm space-y-0.5">
+                        {squawkValidation.issues.map(issue => (
+                          <li key={issue.check} className={issue.severity === 'advisory' ? 'text-gray-600' : 'text-red-600'}>
+                            {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 </div>
               </div>
 
+              {flightPhase && flightPhase.transitions.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">Flight Phases</h3>
+                  <ol className="space-y-1 text-sm">
+                    {flightPhase.transitions.map(transition => (
+                      <li key={`${transition.phase}-${transition.at}`} className="flex items-center">
+                        <span className="font-mono text-gray-500 w-14">{formatUtcTime(transition.at)}</span>
+                        <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${PHASE_BADGE_STYLES[transition.phase]}`}>
+                          {FLIGHT_PHASE_LABELS[transition.phase]}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">Current Position</h3>
                 <div className="space-y-2">
@@ -1150,22 +868,61 @@ export default function Home() {
                       )}
                     </div>
                   )}
-                  {activeFrequency && (
+                  <div>
+                    <span className="font-medium text-gray-700">Controller:</span>
+                    {coverage?.station ? (
+                      <span className="ml-2 text-gray-900">{formatStation(coverage.station)}</span>
+                    ) : (
+                      <span className="ml-2 text-gray-600">{coverage?.uir ? 'No centre online below the UIR' : 'No centre online'}</span>
+                    )}
+                    {coverage?.uir && (
+                      <div className="text-sm text-gray-600 mt-1">
+                        {coverage.station
+                          ? `Above: ${formatStation(coverage.uir)}`
+                          : `${formatStation(coverage.uir)} covers ${currentFIR ? currentFIR.name : 'this FIR'} from above`}
+                      </div>
+                    )}
+                  </div>
+                  {radio && radio.radios.length > 0 && (
                     <div>
                       <span className="font-medium text-gray-700">Active Frequency:</span>
-                      <div className="mt-3 flex justify-center">
-                        <div className="bg-gray-900 text-green-400 px-6 py-4 rounded-xl border-2 border-gray-700 shadow-lg shadow-gray-800/50">
-                          <div className="flex items-center justify-center space-x-3">
-                            <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse shadow-lg shadow-green-400/50"></div>
-                            <span className="font-mono text-2xl font-bold tracking-widest">
-                              {activeFrequency}
-                            </span>
-                            <span className="text-green-300 text-lg font-semibold">
-                              MHz
-                            </span>
+                      <div className="mt-3 flex flex-col items-center gap-3">
+                        {radio.radios.map(tuned => (
+                          <div key={tuned.label} className="text-center">
+                            <div className={`bg-gray-900 px-6 py-4 rounded-xl border-2 border-gray-700 shadow-lg shadow-gray-800/50 ${tuned.label === 'COM1' ? 'text-green-400' : 'text-green-600'}`}>
+                              <div className="flex items-center justify-center space-x-3">
+                                <span className="text-gray-400 text-xs font-semibold">{tuned.label}</span>
+                                {tuned.label === 'COM1' && (
+                                  <div className="w-3 h-3 bg-green-400 rounded-full animate-pulse shadow-lg shadow-green-400/50"></div>
+                                )}
+                                <span className="font-mono text-2xl font-bold tracking-widest">
+                                  {tuned.frequency}
+                                </span>
+                                <span className="text-green-300 text-lg font-semibold">
+                                  MHz
+                                </span>
+                              </div>
+                            </div>
+                            <div className="text-sm text-gray-700 mt-1">
+                              {tuned.station ? (
+                                <>
+                                  {tuned.station.name} <span className="font-mono">({tuned.station.callsign})</span>
+                                  {tuned.station.atisCode && <span className="ml-1 font-semibold">Info {tuned.station.atisCode}</span>}
+                                </>
+                              ) : tuned.unicom ? (
+                                <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full font-medium">UNICOM</span>
+                              ) : (
+                                <span className="text-gray-500">No station online on this frequency</span>
+                              )}
+                            </div>
                           </div>
-                        </div>
+                        ))}
                       </div>
+                      {radio.notOnExpected && radio.expected && (
+                        <div className="mt-3 p-2 bg-orange-50 border border-orange-200 rounded-md text-sm text-orange-800 text-center">
+                          Not tuned to {radio.expected.name} ({radio.expected.callsign}) on {radio.expected.frequency}, which controls this position
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -1181,7 +938,37 @@ export default function Home() {
                     <span className="ml-2 text-gray-900">
                       {pilot.flight_plan.aircraft_short || pilot.flight_plan.aircraft}
                     </span>
+                    {aircraftInfo && (
+                      <span className="ml-2 text-gray-600">{aircraftInfo.manufacturer} {aircraftInfo.model}</span>
+                    )}
+                    {equipment?.wakeCategory && (
+                      <span className="ml-2 text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded-full font-medium">
+                        {equipment.wakeCategory.description}
+                      </span>
+                    )}
                   </div>
+                  {aircraftInfo && (
+                    <div className="text-sm text-gray-600">
+                      {aircraftInfo.engineCount > 0 && `${aircraftInfo.engineCount} × ${aircraftInfo.engineType} · `}
+                      Cruise {aircraftInfo.cruiseSpeed} kt · Ceiling FL{Math.round(aircraftInfo.ceiling / 100)}
+                    </div>
+                  )}
+                  {equipment && equipment.summary.length > 0 && (
+                    <div>
+                      <span className="font-medium text-gray-700">Equipment:</span>
+                      <span className="ml-2 text-gray-900 text-sm">{equipment.summary.join(' · ')}</span>
+                      {equipment.faaSuffix && (
+                        <span className="ml-2 text-xs text-gray-500" title={equipment.faaSuffix.description}>
+                          (/{equipment.faaSuffix.code})
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {equipment && equipment.warnings.map(warning => (
+                    <div key={warning} className="text-sm bg-orange-50 border border-orange-200 text-orange-800 px-2 py-1 rounded">
+                      ⚠️ {warning}
+                    </div>
+                  ))}
                   <div>
                     <div>
                       <span className="font-medium text-gray-700">Departure:</span>
@@ -1226,6 +1013,12 @@ export default function Home() {
                       <span className="ml-2 text-gray-900">
                         {formatETADisplay(etaData.duration, etaData.distance)}
                       </span>
+                      <span
+                        className={`ml-2 text-xs px-2 py-1 rounded-full font-medium ${ETA_CONFIDENCE_STYLES[etaData.confidence]}`}
+                        title={ETA_BASIS_LABELS[etaData.basis]}
+                      >
+                        {etaData.confidence} confidence
+                      </span>
                     </div>
                   )}
                   {etaData && (
@@ -1238,8 +1031,49 @@ export default function Home() {
                   )}
                   <div>
                     <span className="font-medium text-gray-700">Departure Time:</span>
-                    <span className="ml-2 text-gray-900">{pilot.flight_plan.deptime}</span>
+                    <span className="ml-2 text-gray-900">
+                      {schedule?.scheduledOffBlock ? formatUtcTime(schedule.scheduledOffBlock) : pilot.flight_plan.deptime}
+                    </span>
+                    {schedule && schedule.status !== 'unknown' && (
+                      <span className={`ml-2 text-xs px-2 py-1 rounded-full font-medium ${SCHEDULE_STATUS_STYLES[schedule.status]}`}>
+                        {formatScheduleStatus(schedule)}
+                      </span>
+                    )}
                   </div>
+                  {schedule?.actualTakeoff && (
+                    <div>
+                      <span className="font-medium text-gray-700">Takeoff:</span>
+                      <span className="ml-2 text-gray-900">{formatUtcTime(schedule.actualTakeoff)}</span>
+                      {schedule.departureDelay !== null && (
+                        <span className="ml-2 text-sm text-gray-500">({formatDelay(schedule.departureDelay)})</span>
+                      )}
+                    </div>
+                  )}
+                  {schedule?.scheduledArrival && (
+                    <div>
+                      <span className="font-medium text-gray-700">Scheduled Arrival:</span>
+                      <span className="ml-2 text-gray-900">{formatUtcTime(schedule.scheduledArrival)}</span>
+                      {schedule.actualLanding && (
+                        <span className="ml-2 text-sm text-gray-500">landed {formatUtcTime(schedule.actualLanding)}</span>
+                      )}
+                    </div>
+                  )}
+                  {schedule?.fuelExhaustion && (
+                    <div>
+                      <span className="font-medium text-gray-700">Fuel Endurance:</span>
+                      <span className="ml-2 text-gray-900">until {formatUtcTime(schedule.fuelExhaustion)}</span>
+                      {schedule.fuelMargin !== null && (
+                        <span className={`ml-2 text-sm ${schedule.fuelMargin < schedule.reserveMinutes ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                          ({schedule.fuelMargin} min at arrival)
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {schedule && schedule.warnings.map(warning => (
+                    <div key={warning} className="text-sm bg-red-50 border border-red-200 text-red-800 px-2 py-1 rounded">
+                      ⛽ {warning}
+                    </div>
+                  ))}
                   <div>
                     <span className="font-medium text-gray-700">Cruise Altitude:</span>
                     <span className="ml-2 text-gray-900">{pilot.flight_plan.altitude}</span>
@@ -1248,7 +1082,11 @@ export default function Home() {
                     <div>
                       <span className="font-medium text-gray-700">Route:</span>
                       <div className="ml-2 text-gray-900 text-sm bg-gray-50 p-2 rounded mt-1">
-                        {pilot.flight_plan.route}
+                        <RouteDisplay
+                          route={pilot.flight_plan.route}
+                          departure={pilot.flight_plan.departure}
+                          arrival={pilot.flight_plan.arrival}
+                        />
                       </div>
                     </div>
                   )}
@@ -1260,6 +1098,7 @@ export default function Home() {
                       </div>
                     </div>
                   )}
+                  {decodedRemarks && <RemarksFields remarks={decodedRemarks} />}
                 </div>
               </div>
             )}
@@ -1290,6 +1129,26 @@ export default function Home() {
         </div>
       )}
 
+      {pilot && pilot.flight_plan && firSequence && firSequence.entries.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mt-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">FIRs Ahead</h2>
+          <FIRSequence sequence={firSequence} />
+        </div>
+      )}
+
+      {pilot && pilot.flight_plan && airportAtc && (
+        <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mt-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">Airport ATC</h2>
+          <AirportAtc
+            airports={[
+              { label: 'Departure', status: airportAtc.departure },
+              { label: 'Arrival', status: airportAtc.arrival },
+              { label: 'Alternate', status: airportAtc.alternate }
+            ]}
+          />
+        </div>
+      )}
+
       {pilot && pilot.flight_plan && (
         <div className="bg-white rounded-lg shadow-md p-4 sm:p-4 sm:p-6 mt-6">
           <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6 gap-4">
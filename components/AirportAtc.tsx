@@ -0,0 +1,63 @@
+'use client';
+
+import { AirportAtcStatus, AirportService, AirportServiceStatus } from '../types/vatsim';
+
+interface AirportAtcProps {
+  airports: { label: string; status: AirportAtcStatus | null }[];
+}
+
+const SERVICE_LABELS: Record<AirportService, string> = {
+  DEL: 'Delivery',
+  GND: 'Ground',
+  TWR: 'Tower',
+  APP: 'Approach/Departure',
+  ATIS: 'ATIS'
+};
+
+function ServiceRow({ status }: { status: AirportServiceStatus }) {
+  const { service, stations, providedBy, topDown } = status;
+  return (
+    <div className="flex justify-between gap-2 text-sm">
+      <span className="text-gray-700">{SERVICE_LABELS[service]}</span>
+      {!providedBy ? (
+        <span className="text-gray-400">Offline</span>
+      ) : (
+        <span className={`text-right ${topDown ? 'text-gray-600' : 'text-gray-900'}`}>
+          <span className="font-mono">{providedBy.callsign}</span> {providedBy.frequency}
+          {providedBy.atisCode && <span className="ml-1 font-semibold">Info {providedBy.atisCode}</span>}
+          {topDown && <span className="ml-1 text-xs text-gray-500">(top-down)</span>}
+          {stations.length > 1 && (
+            <span className="block text-xs text-gray-500">
+              also {stations.slice(1).map(station => `${station.callsign} ${station.frequency}`).join(', ')}
+            </span>
+          )}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// Staffed positions at the departure, arrival and alternate airports
+export default function AirportAtc({ airports }: AirportAtcProps) {
+  const shown = airports.filter((airport): airport is { label: string; status: AirportAtcStatus } => airport.status !== null);
+  if (shown.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {shown.map(({ label, status }) => (
+        <div key={label} className="bg-gray-50 p-4 rounded-lg border">
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">
+            {label} <span className="font-mono text-gray-600">{status.icao}</span>
+          </h3>
+          <div className="space-y-1">
+            {status.services.map(service => (
+              <ServiceRow key={service.service} status={service} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { MapContainer, TileLayer, CircleMarker, Popup, Tooltip } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { EmergencySquawk } from '../types/vatsim';
+
+interface EmergencyMapProps {
+  emergencies: EmergencySquawk[];
+}
+
+const SQUAWK_COLORS: Record<string, string> = {
+  '7500': '#7c3aed',
+  '7600': '#d97706',
+  '7700': '#dc2626'
+};
+
+export default function EmergencyMap({ emergencies }: EmergencyMapProps) {
+  return (
+    <div className="w-full h-96 rounded-lg overflow-hidden border border-gray-300">
+      <MapContainer
+        center={[30, 0]}
+        zoom={2}
+        worldCopyJump
+        style={{ height: '100%', width: '100%' }}
+        className="z-0"
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+          url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
+        />
+
+        {emergencies.map(emergency => (
+          <CircleMarker
+            key={emergency.callsign}
+            center={[emergency.latitude, emergency.longitude]}
+            radius={8}
+            pathOptions={{ color: SQUAWK_COLORS[emergency.code], fillColor: SQUAWK_COLORS[emergency.code], fillOpacity: 0.8 }}
+          >
+            <Tooltip direction="top" offset={[0, -8]}>
+              {emergency.callsign} · {emergency.code}
+            </Tooltip>
+            <Popup>
+              <div className="text-sm">
+                <strong>{emergency.callsign}</strong> squawking {emergency.code} ({emergency.meaning})
+                <br />
+                Altitude: {emergency.altitude} ft
+                <br />
+                Speed: {emergency.groundspeed} kts
+                <br />
+                Heading: {emergency.heading}°
+                {emergency.currentFIR && (
+                  <>
+                    <br />
+                    FIR: {emergency.currentFIR.name} ({emergency.currentFIR.id})
+                  </>
+                )}
+              </div>
+            </Popup>
+          </CircleMarker>
+        ))}
+      </MapContainer>
+    </div>
+  );
+}
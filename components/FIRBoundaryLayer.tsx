@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { GeoJSON, Marker, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { FIRBoundaryCollection, FIRBoundaryFeature, loadFIRBoundaries } from '../utils/fir-detection';
+import { classifyPositionsInWorker } from '../utils/fir-lookup';
+import { fetchNetworkPositions } from '../utils/vatsim-client';
+
+interface FIRBoundaryLayerProps {
+  staffedFIRs: string[];
+  currentFIR?: string | null;
+}
+
+// Labels would pile on top of each other when zoomed further out
+const LABEL_MIN_ZOOM = 4;
+
+const labelIcon = (id: string, traffic: number, staffed: boolean, current: boolean): L.DivIcon =>
+  new L.DivIcon({
+    html: `<span style="
+      font-size: 10px;
+      font-weight: ${current ? 700 : 500};
+      color: ${staffed ? '#15803d' : '#4b5563'};
+      white-space: nowrap;
+    ">${id}${traffic > 0 ? ` · ${traffic}` : ''}</span>`,
+    iconSize: [60, 12],
+    iconAnchor: [30, 6],
+    className: 'fir-label',
+  });
+
+// FIR boundaries from Boundaries.geojson: staffed sectors shaded, the current FIR outlined,
+// oceanic FIRs dashed and each label showing how many pilots are in the FIR
+export default function FIRBoundaryLayer({ staffedFIRs, currentFIR }: FIRBoundaryLayerProps) {
+  const [boundaries, setBoundaries] = useState<FIRBoundaryCollection | null>(null);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [traffic, setTraffic] = useState<Record<string, number>>({});
+  const layerRef = useRef<L.GeoJSON | null>(null);
+  const map = useMapEvents({
+    zoomend: () => setZoom(map.getZoom())
+  });
+
+  useEffect(() => {
+    loadFIRBoundaries().then(setBoundaries);
+  }, []);
+
+  // Classify every pilot on the network in the worker and count them per FIR.
+  // Only positions are downloaded, and an unchanged feed costs a 304.
+  useEffect(() => {
+    let cancelled = false;
+    let lastUpdate: string | null = null;
+    const refresh = async () => {
+      try {
+        const { positions, updateTimestamp } = await fetchNetworkPositions();
+        if (cancelled || updateTimestamp === lastUpdate) return;
+        lastUpdate = updateTimestamp;
+
+        const firs = await classifyPositionsInWorker(positions);
+        const counts: Record<string, number> = {};
+        Object.keys(firs).forEach(callsign => {
+          const fir = firs[callsign];
+          if (fir) counts[fir.id] = (counts[fir.id] ?? 0) + 1;
+        });
+        if (!cancelled) setTraffic(counts);
+      } catch (error) {
+        console.error('Error counting traffic per FIR:', error);
+      }
+    };
+
+    refresh();
+    const interval = setInterval(refresh, 15000); // The feed only updates every 15 seconds
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  const staffedKey = staffedFIRs.join(',');
+  const style = useMemo(() => {
+    const staffed = new Set(staffedKey.split(','));
+    return (feature?: GeoJSON.Feature) => {
+      const properties = (feature as FIRBoundaryFeature | undefined)?.properties;
+      const isStaffed = properties ? staffed.has(properties.id) : false;
+      const isCurrent = properties ? properties.id === currentFIR : false;
+      const isOceanic = properties?.oceanic === '1';
+      return {
+        color: isCurrent ? '#1d4ed8' : isStaffed ? '#15803d' : isOceanic ? '#0369a1' : '#6b7280',
+        weight: isCurrent ? 3 : 1,
+        opacity: isCurrent || isStaffed ? 0.9 : 0.5,
+        dashArray: isOceanic ? '6, 4' : undefined,
+        fillColor: isStaffed ? '#22c55e' : '#1d4ed8',
+        fillOpacity: isStaffed ? 0.15 : isCurrent ? 0.08 : 0
+      };
+    };
+  }, [staffedKey, currentFIR]);
+
+  // Restyle in place; rebuilding the layer means re-adding every polygon
+  useEffect(() => {
+    layerRef.current?.setStyle(style);
+  }, [style]);
+
+  // One label per FIR even when its boundary is split into several features
+  const labels = useMemo(() => {
+    if (!boundaries) return [];
+    const seen = new Map<string, [number, number]>();
+    for (const feature of boundaries.features) {
+      const { id, label_lat, label_lon } = feature.properties;
+      const position: [number, number] = [parseFloat(label_lat), parseFloat(label_lon)];
+      if (id && !seen.has(id) && !isNaN(position[0]) && !isNaN(position[1])) {
+        seen.set(id, position);
+      }
+    }
+    return Array.from(seen.entries());
+  }, [boundaries]);
+
+  if (!boundaries) {
+    return null;
+  }
+
+  const staffed = new Set(staffedFIRs);
+  const showLabels = (zoom ?? map.getZoom()) >= LABEL_MIN_ZOOM;
+
+  return (
+    <>
+      <GeoJSON
+        ref={layerRef}
+        data={boundaries}
+        style={style}
+        interactive={false}
+      />
+      {showLabels && labels.map(([id, position]) => (
+        <Marker
+          key={id}
+          position={position}
+          icon={labelIcon(id, traffic[id] ?? 0, staffed.has(id), id === currentFIR)}
+          interactive={false}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { FIRSequence as FIRSequenceData } from '../types/vatsim';
+
+interface FIRSequenceProps {
+  sequence: FIRSequenceData;
+}
+
+// "14:27Z"
+const formatTime = (iso: string | null): string => (iso ? `${new Date(iso).toUTCString().slice(17, 22)}Z` : '—');
+
+// Late or early against the filed EET, within five minutes counts as on time
+const differenceLabel = (minutes: number): { text: string; className: string } => {
+  if (Math.abs(minutes) <= 5) return { text: 'on time', className: 'text-green-700' };
+  return minutes > 0
+    ? { text: `+${minutes} min`, className: 'text-red-700' }
+    : { text: `${minutes} min`, className: 'text-blue-700' };
+};
+
+// FIRs ahead of the aircraft with predicted entry times, filed EET/ times and staffing
+export default function FIRSequence({ sequence }: FIRSequenceProps) {
+  const { entries, basis, unmatchedEet } = sequence;
+  const hasFiledTimes = entries.some(entry => entry.filedEntryTime);
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-700 border-b">
+              <th className="py-2 pr-3">FIR</th>
+              <th className="py-2 pr-3">Distance</th>
+              <th className="py-2 pr-3">Entry</th>
+              {hasFiledTimes && <th className="py-2 pr-3">Filed (EET)</th>}
+              <th className="py-2">ATC</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, index) => {
+              const difference = entry.differenceMinutes !== null ? differenceLabel(entry.differenceMinutes) : null;
+              return (
+                <tr key={`${entry.id}-${index}`} className={`border-b last:border-0 ${entry.current ? 'bg-blue-50' : ''}`}>
+                  <td className="py-2 pr-3">
+                    <span className="font-mono text-gray-900">{entry.id}</span>
+                    <span className="ml-2 text-gray-600">{entry.name}</span>
+                    {entry.isOceanic && (
+                      <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full font-medium">Oceanic</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 text-gray-900">{entry.current ? 'Now' : `${entry.distance} nm`}</td>
+                  <td className="py-2 pr-3 text-gray-900">{entry.current ? '—' : formatTime(entry.entryTime)}</td>
+                  {hasFiledTimes && (
+                    <td className="py-2 pr-3 text-gray-900">
+                      {formatTime(entry.filedEntryTime)}
+                      {difference && <span className={`ml-2 text-xs ${difference.className}`}>{difference.text}</span>}
+                    </td>
+                  )}
+                  <td className="py-2">
+                    {entry.staffed ? (
+                      <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full font-medium">Online</span>
+                    ) : (
+                      <span className="text-xs text-gray-400">Offline</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        Predicted along the {basis === 'route' ? 'filed route' : 'great circle to the arrival airport'}.
+        {unmatchedEet.length > 0 && (
+          <> Filed EET points not on the predicted path: {unmatchedEet.map(entry => `${entry.location} (${entry.elapsed})`).join(', ')}.</>
+        )}
+      </p>
+    </div>
+  );
+}
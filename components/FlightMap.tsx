@@ -1,10 +1,14 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Polyline } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, CircleMarker, Tooltip } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { getAirportByIcao } from '../utils/vatspy-parser';
+import { splitRouteAtPosition } from '../utils/route-resolver';
+import { getAircraftIcon } from '../utils/aircraft-types';
+import { PositionSample, ResolvedRoute } from '../types/vatsim';
+import FIRBoundaryLayer from './FIRBoundaryLayer';
 
 // Define types locally to match the main app
 interface VatsimPilot {
@@ -50,12 +54,9 @@ const calculateBearing = (lat1: number, lon1: number, lat2: number, lon2: number
 };
 
 // Function to create dynamic aircraft icon based on aircraft type with rotation
-const createAircraftIcon = (aircraftType: string = 'a20n', rotation: number = 0): L.DivIcon => {
-  // Clean up aircraft type and convert to lowercase
-  const cleanType = aircraftType.toLowerCase().replace(/[^a-z0-9]/g, '');
-  
-  // Use the aircraft type as filename, fallback to a20n if icon doesn't exist
-  const iconUrl = `/aircraft/${cleanType}.svg`;
+const createAircraftIcon = (aircraftType: string | undefined, wakeCategory: string | null | undefined, rotation: number = 0): L.DivIcon => {
+  // Map the filed type to an existing icon, falling back by family and wake category
+  const iconUrl = getAircraftIcon(aircraftType, wakeCategory);
   
   // Create SVG with black filter and rotation
   const svgIcon = `
@@ -95,8 +96,43 @@ const airportIcon = new L.Icon({
 interface FlightMapProps {
   pilot: VatsimPilot;
   airports: Record<string, VatsimAirport>;
+  route?: ResolvedRoute | null;
+  history?: PositionSample[];
+  wakeCategory?: string | null;
+  staffedFIRs?: string[];
+  currentFIR?: string | null;
 }
 
+// Track colours by altitude band, low to high
+const ALTITUDE_BANDS: { below: number; color: string }[] = [
+  { below: 1000, color: '#6b7280' },
+  { below: 10000, color: '#16a34a' },
+  { below: 20000, color: '#ca8a04' },
+  { below: 30000, color: '#ea580c' },
+  { below: Infinity, color: '#7c3aed' }
+];
+
+const altitudeColor = (altitude: number): string =>
+  ALTITUDE_BANDS.find(band => altitude < band.below)!.color;
+
+// Split the recorded track into runs of the same colour so each run is one polyline
+const colorTrack = (samples: { latitude: number; longitude: number; altitude: number }[]) => {
+  const runs: { color: string; positions: [number, number][] }[] = [];
+  for (const sample of samples) {
+    const color = altitudeColor(sample.altitude);
+    const position: [number, number] = [sample.latitude, sample.longitude];
+    const current = runs[runs.length - 1];
+    if (current && current.color === color) {
+      current.positions.push(position);
+    } else {
+      // Start the new run where the previous one ended so the track stays continuous
+      const previous = current ? [current.positions[current.positions.length - 1]] : [];
+      runs.push({ color, positions: [...previous, position] });
+    }
+  }
+  return runs.filter(run => run.positions.length >= 2);
+};
+
 // Function to get airport coordinates from VatSpy data
 const getAirportCoordinates = async (icao: string): Promise<[number, number] | null> => {
   try {
@@ -110,13 +146,14 @@ const getAirportCoordinates = async (icao: string): Promise<[number, number] | n
   return null;
 };
 
-export default function FlightMap({ pilot, airports }: FlightMapProps) {
+export default function FlightMap({ pilot, airports, route, history, wakeCategory, staffedFIRs, currentFIR }: FlightMapProps) {
   const [departureCoords, setDepartureCoords] = useState(null as any);
   const [arrivalCoords, setArrivalCoords] = useState(null as any);
+  const [showFIRs, setShowFIRs] = useState(false);
   const currentPosition: [number, number] = [pilot.latitude, pilot.longitude];
   
   // Calculate rotation angle towards destination
-  const aircraftType = pilot.flight_plan?.aircraft_short || 'a20n';
+  const aircraftType = pilot.flight_plan?.aircraft_short;
   let rotation = 0;
   if (arrivalCoords) {
     rotation = calculateBearing(
@@ -128,7 +165,7 @@ export default function FlightMap({ pilot, airports }: FlightMapProps) {
   }
   
   // Create aircraft icon based on aircraft type with rotation
-  const aircraftIcon = createAircraftIcon(aircraftType, rotation);
+  const aircraftIcon = createAircraftIcon(aircraftType, wakeCategory, rotation);
   
   useEffect(() => {
     // Fetch airport coordinates for departure and arrival
@@ -145,13 +182,35 @@ export default function FlightMap({ pilot, airports }: FlightMapProps) {
     fetchCoords();
   }, [pilot.flight_plan]);
 
-  const pathCoords = [];
-  if (departureCoords) pathCoords.push(departureCoords);
-  pathCoords.push(currentPosition);
-  if (arrivalCoords) pathCoords.push(arrivalCoords);
+  // Draw the filed route when the server could resolve it, otherwise a straight line
+  const routeWaypoints = route && route.waypoints.length >= 2 ? route.waypoints : null;
+  const routeSplit = routeWaypoints
+    ? splitRouteAtPosition(routeWaypoints, pilot.latitude, pilot.longitude)
+    : null;
+  // The recorded track replaces the estimated flown path once there is enough of it
+  const flownTrack = history && history.length >= 2
+    ? colorTrack([...history, { latitude: pilot.latitude, longitude: pilot.longitude, altitude: pilot.altitude }])
+    : null;
+  const flownPath: [number, number][] | null = flownTrack
+    ? null
+    : routeSplit
+      ? [...routeSplit.flown.map(wp => [wp.latitude, wp.longitude] as [number, number]), currentPosition]
+      : departureCoords ? [departureCoords, currentPosition] : null;
+  const upcomingPath: [number, number][] | null = routeSplit
+    ? [currentPosition, ...routeSplit.remaining.map(wp => [wp.latitude, wp.longitude] as [number, number])]
+    : arrivalCoords ? [currentPosition, arrivalCoords] : null;
 
   return (
-    <div className="w-full h-96 rounded-lg overflow-hidden border border-gray-300">
+    <div className="relative w-full h-96 rounded-lg overflow-hidden border border-gray-300">
+      {/* FIR boundary overlay toggle */}
+      <label className="absolute top-2 right-2 z-[1000] flex items-center gap-1 bg-white/90 px-2 py-1 rounded shadow text-xs text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={showFIRs}
+          onChange={event => setShowFIRs(event.target.checked)}
+        />
+        FIR boundaries
+      </label>
       <MapContainer
         center={currentPosition}
         zoom={6}
@@ -162,6 +221,9 @@ export default function FlightMap({ pilot, airports }: FlightMapProps) {
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
           url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
         />
+
+        {/* FIR boundaries, drawn under the route and aircraft */}
+        {showFIRs && <FIRBoundaryLayer staffedFIRs={staffedFIRs ?? []} currentFIR={currentFIR} />}
         
         {/* Aircraft position */}
         <Marker position={currentPosition} icon={aircraftIcon}>
@@ -205,25 +267,54 @@ export default function FlightMap({ pilot, airports }: FlightMapProps) {
         )}
 
         {/* Flight Path - Already Flown (Solid) */}
-        {departureCoords && (
+        {flownPath && (
           <Polyline 
-            positions={[departureCoords, currentPosition]} 
+            positions={flownPath} 
             color="blue" 
             weight={3} 
             opacity={0.7}
           />
         )}
 
+        {/* Recorded track, coloured by altitude */}
+        {flownTrack && flownTrack.map((run, index) => (
+          <Polyline
+            key={`track-${index}`}
+            positions={run.positions}
+            color={run.color}
+            weight={3}
+            opacity={0.9}
+          />
+        ))}
+
         {/* Flight Path - Upcoming Route (Dotted) */}
-        {arrivalCoords && (
+        {upcomingPath && (
           <Polyline 
-            positions={[currentPosition, arrivalCoords]} 
+            positions={upcomingPath} 
             color="blue" 
             weight={3} 
             opacity={0.7}
             dashArray="10, 10"
           />
         )}
+
+        {/* Filed route waypoints */}
+        {routeWaypoints && routeWaypoints
+          .filter(wp => wp.kind !== 'airport')
+          .map((wp, index) => (
+            <CircleMarker
+              key={`${wp.ident}-${index}`}
+              center={[wp.latitude, wp.longitude]}
+              radius={3}
+              color="blue"
+              weight={1}
+              fillOpacity={0.8}
+            >
+              <Tooltip direction="top" offset={[0, -4]}>
+                {wp.ident}{wp.via ? ` (${wp.via})` : ''}
+              </Tooltip>
+            </CircleMarker>
+          ))}
       </MapContainer>
     </div>
   );
@@ -0,0 +1,92 @@
+'use client';
+
+import { PrefileLookupResult, VatsimAirport } from '../types/vatsim';
+import { getAircraftLabel } from '../utils/aircraft-types';
+import { parseFiledTime } from '../utils/flight-plan-fields';
+import RemarksFields from './RemarksFields';
+import RouteDisplay from './RouteDisplay';
+
+interface PrefileCardProps {
+  result: PrefileLookupResult;
+}
+
+const formatAirport = (icao: string, airport: VatsimAirport | null): string =>
+  airport && airport.name && airport.name !== icao ? `${icao} - ${airport.name}` : icao || '—';
+
+// Flight plan filed ahead of connecting; page.tsx swaps this for the live view once the CID logs on
+export default function PrefileCard({ result }: PrefileCardProps) {
+  const { prefile, enrichment } = result;
+  const flightPlan = prefile.flight_plan;
+  const aircraftLabel = getAircraftLabel(flightPlan.aircraft_short);
+  const offBlock = parseFiledTime(flightPlan.deptime, new Date(prefile.last_updated));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Flight Information</h2>
+        <span className="text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded-full font-medium">
+          Filed – not connected
+        </span>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        This flight plan has been filed but {prefile.name || `CID ${prefile.cid}`} is not connected yet.
+        Tracking starts automatically when they log on.
+      </p>
+
+      <div className="space-y-2">
+        <div>
+          <span className="font-medium text-gray-700">Callsign:</span>
+          <span className="ml-2 text-gray-900">{prefile.callsign}</span>
+        </div>
+        <div>
+          <span className="font-medium text-gray-700">Aircraft:</span>
+          <span className="ml-2 text-gray-900">{flightPlan.aircraft_short || flightPlan.aircraft}</span>
+          {aircraftLabel && <span className="ml-2 text-gray-600">{aircraftLabel}</span>}
+        </div>
+        <div>
+          <span className="font-medium text-gray-700">Departure:</span>
+          <span className="ml-2 text-gray-900">{formatAirport(flightPlan.departure, enrichment.departure)}</span>
+        </div>
+        <div>
+          <span className="font-medium text-gray-700">Arrival:</span>
+          <span className="ml-2 text-gray-900">{formatAirport(flightPlan.arrival, enrichment.arrival)}</span>
+        </div>
+        {flightPlan.alternate && (
+          <div>
+            <span className="font-medium text-gray-700">Alternate:</span>
+            <span className="ml-2 text-gray-900">{formatAirport(flightPlan.alternate, enrichment.alternate)}</span>
+          </div>
+        )}
+        <div>
+          <span className="font-medium text-gray-700">Departure Time:</span>
+          <span className="ml-2 text-gray-900">
+            {offBlock ? `${offBlock.toUTCString().slice(17, 22)}Z` : flightPlan.deptime}
+          </span>
+        </div>
+        <div>
+          <span className="font-medium text-gray-700">Cruise Altitude:</span>
+          <span className="ml-2 text-gray-900">{flightPlan.altitude}</span>
+        </div>
+        {flightPlan.route && (
+          <div>
+            <span className="font-medium text-gray-700">Route:</span>
+            <div className="mt-1">
+              <RouteDisplay route={flightPlan.route} departure={flightPlan.departure} arrival={flightPlan.arrival} />
+            </div>
+            {enrichment.route && enrichment.route.totalDistance > 0 && (
+              <p className="text-xs text-gray-500 mt-1">{enrichment.route.totalDistance} nm along the filed route</p>
+            )}
+          </div>
+        )}
+        {flightPlan.remarks && (
+          <div>
+            <span className="font-medium text-gray-700">Remarks:</span>
+            <p className="mt-1 text-sm text-gray-900 break-words">{flightPlan.remarks}</p>
+          </div>
+        )}
+        {enrichment.remarks && <RemarksFields remarks={enrichment.remarks} />}
+      </div>
+    </div>
+  );
+}
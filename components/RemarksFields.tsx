@@ -0,0 +1,77 @@
+'use client';
+
+import { DecodedRemarks } from '../types/vatsim';
+
+interface RemarksFieldsProps {
+  remarks: DecodedRemarks;
+}
+
+// Labelled rows for the Item 18 indicators decoded from the remarks, shared by the live and prefiled views
+export default function RemarksFields({ remarks }: RemarksFieldsProps) {
+  return (
+    <>
+      {remarks.registration && (
+        <div>
+          <span className="font-medium text-gray-700">Registration:</span>
+          <span className="ml-2 text-gray-900 font-mono">{remarks.registration}</span>
+        </div>
+      )}
+      {remarks.operator && (
+        <div>
+          <span className="font-medium text-gray-700">Operator:</span>
+          <span className="ml-2 text-gray-900 font-mono">{remarks.operator}</span>
+        </div>
+      )}
+      <div>
+        <span className="font-medium text-gray-700">Voice:</span>
+        <span className="ml-2 text-gray-900">
+          {remarks.voice === 'voice' && '🎙️ Full voice'}
+          {remarks.voice === 'receive-only' && '🔈 Receive voice only'}
+          {remarks.voice === 'text-only' && '💬 Text only'}
+          {!remarks.voice && 'Not specified'}
+        </span>
+      </div>
+      {remarks.selcal && (
+        <div>
+          <span className="font-medium text-gray-700">SELCAL:</span>
+          <span className="ml-2 text-gray-900 font-mono">{remarks.selcal}</span>
+        </div>
+      )}
+      {remarks.dateOfFlight && (
+        <div>
+          <span className="font-medium text-gray-700">Date of Flight:</span>
+          <span className="ml-2 text-gray-900">{remarks.dateOfFlight}</span>
+        </div>
+      )}
+      {remarks.pbn.length > 0 && (
+        <div>
+          <span className="font-medium text-gray-700">PBN Capabilities:</span>
+          <div className="ml-2 mt-1 flex flex-wrap gap-1">
+            {remarks.pbn.map(capability => (
+              <span
+                key={capability.code}
+                title={capability.description}
+                className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full font-medium"
+              >
+                {capability.code} · {capability.description}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      {remarks.eet.length > 0 && (
+        <div>
+          <span className="font-medium text-gray-700">Estimated Elapsed Times:</span>
+          <div className="ml-2 mt-1 text-sm text-gray-900 space-y-0.5">
+            {remarks.eet.map(entry => (
+              <div key={`${entry.location}-${entry.elapsed}`} className="flex justify-between max-w-xs">
+                <span className="font-mono">{entry.location}</span>
+                <span>+{Math.floor(entry.minutes / 60)}h {entry.minutes % 60}m</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
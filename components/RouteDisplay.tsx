@@ -0,0 +1,69 @@
+'use client';
+
+import { parseRoute, RouteToken } from '../utils/route-parser';
+
+interface RouteDisplayProps {
+  route: string;
+  departure?: string;
+  arrival?: string;
+}
+
+const tokenStyles: Record<RouteToken['type'], string> = {
+  sid: 'bg-green-100 text-green-800',
+  star: 'bg-purple-100 text-purple-800',
+  airway: 'bg-blue-100 text-blue-800',
+  fix: 'bg-gray-200 text-gray-900',
+  airport: 'bg-red-100 text-red-800',
+  coordinate: 'bg-yellow-100 text-yellow-800',
+  direct: 'text-gray-500',
+  speedLevel: 'bg-orange-100 text-orange-800',
+  flightRules: 'bg-pink-100 text-pink-800',
+  unknown: 'text-gray-500 italic',
+};
+
+const describeToken = (token: RouteToken): string => {
+  switch (token.type) {
+    case 'sid':
+      return 'Standard instrument departure';
+    case 'star':
+      return 'Standard arrival';
+    case 'airway':
+      return 'Airway';
+    case 'fix':
+      return 'Waypoint / navaid';
+    case 'airport':
+      return 'Airport';
+    case 'coordinate':
+      return `${token.latitude.toFixed(2)}, ${token.longitude.toFixed(2)}`;
+    case 'direct':
+      return 'Direct';
+    case 'speedLevel': {
+      const { speed, level } = token.change;
+      const speedText = speed.unit === 'M' ? `Mach ${(speed.value / 100).toFixed(2)}` : `${speed.value} ${speed.unit === 'N' ? 'kts' : 'km/h'}`;
+      const levelText = level.unit === 'VFR' ? 'VFR' : level.unit === 'F' ? `FL${level.value}` : `${level.unit}${level.value}`;
+      return `Speed/level change: ${speedText}, ${levelText}`;
+    }
+    case 'flightRules':
+      return `Change to ${token.rules}`;
+    default:
+      return 'Unrecognised element';
+  }
+};
+
+export default function RouteDisplay({ route, departure, arrival }: RouteDisplayProps) {
+  const parsed = parseRoute(route, { departure, arrival });
+
+  return (
+    <div className="flex flex-wrap gap-1 font-mono text-xs">
+      {parsed.tokens.map((token, index) => (
+        <span
+          key={`${token.raw}-${index}`}
+          title={describeToken(token)}
+          className={`px-1.5 py-0.5 rounded ${tokenStyles[token.type]}`}
+        >
+          {token.raw}
+        </span>
+      ))}
+    </div>
+  );
+}
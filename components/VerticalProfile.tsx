@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FlightPhase, PositionSample, ResolvedRoute, VatsimPilot } from '../types/vatsim';
+import { getAirportByIcao } from '../utils/vatspy-parser';
+import { remainingDistance } from '../utils/eta';
+import { getAircraftType } from '../utils/aircraft-types';
+import { parseFiledAltitude } from '../utils/flight-plan-fields';
+import { buildVerticalProfile, DEFAULT_DESCENT_GRADIENT, DESCENT_GRADIENTS, ProfilePoint } from '../utils/vertical-profile';
+
+interface VerticalProfileProps {
+  pilot: VatsimPilot;
+  route?: ResolvedRoute | null;
+  history: PositionSample[];
+  phase?: FlightPhase | null;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 44 };
+
+const formatLevel = (altitude: number): string =>
+  altitude >= 18000 ? `FL${Math.round(altitude / 100)}` : `${Math.round(altitude / 100) * 100} ft`;
+
+export default function VerticalProfile({ pilot, route, history, phase }: VerticalProfileProps) {
+  const [arrival, setArrival] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [gradient, setGradient] = useState<number>(DEFAULT_DESCENT_GRADIENT);
+
+  // Remember the preferred descent gradient between visits
+  useEffect(() => {
+    const saved = parseFloat(localStorage.getItem('descentGradient') || '');
+    if (DESCENT_GRADIENTS.includes(saved)) {
+      setGradient(saved);
+    }
+  }, []);
+
+  const arrivalIcao = pilot.flight_plan?.arrival;
+  useEffect(() => {
+    if (!arrivalIcao) {
+      setArrival(null);
+      return;
+    }
+    getAirportByIcao(arrivalIcao)
+      .then(airport => setArrival(airport ? { latitude: airport.latitude, longitude: airport.longitude } : null))
+      .catch(error => console.log(`Could not fetch coordinates for ${arrivalIcao} from VatSpy:`, error));
+  }, [arrivalIcao]);
+
+  if (!pilot.flight_plan || !arrival) {
+    return null;
+  }
+
+  const changeGradient = (value: number) => {
+    setGradient(value);
+    localStorage.setItem('descentGradient', value.toString());
+  };
+
+  const profile = buildVerticalProfile({
+    history,
+    current: pilot,
+    distanceToArrival: remainingDistance(pilot, arrival, route).distance,
+    cruiseAltitude: parseFiledAltitude(pilot.flight_plan.altitude),
+    descending: phase === 'descent' || phase === 'approach',
+    gradient,
+    aircraft: getAircraftType(pilot.flight_plan.aircraft_short)
+  });
+
+  const topAltitude = Math.max(
+    profile.filedAltitude ?? 0,
+    ...profile.history.map(point => point.altitude),
+    ...profile.predicted.map(point => point.altitude),
+    1000
+  ) * 1.1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (distance: number) => PADDING.left + (profile.totalDistance > 0 ? distance / profile.totalDistance : 0) * plotWidth;
+  const y = (altitude: number) => PADDING.top + plotHeight - (altitude / topAltitude) * plotHeight;
+  const toPoints = (points: ProfilePoint[]) => points.map(point => `${x(point.distance)},${y(point.altitude)}`).join(' ');
+
+  const tod = profile.topOfDescent;
+  const todDistance = tod ? profile.current.distance + tod.distanceToGo : null;
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium text-gray-700">Vertical Profile</h4>
+        <label className="text-sm text-gray-600">
+          Descent
+          <select
+            value={gradient}
+            onChange={e => changeGradient(parseFloat(e.target.value))}
+            className="ml-2 border border-gray-300 rounded px-1 py-0.5 text-sm"
+          >
+            {DESCENT_GRADIENTS.map(value => (
+              <option key={value} value={value}>{value.toFixed(1)}°</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-48 border border-gray-300 rounded-lg bg-white">
+        {/* Axes */}
+        <line x1={PADDING.left} y1={PADDING.top + plotHeight} x2={WIDTH - PADDING.right} y2={PADDING.top + plotHeight} stroke="#9ca3af" />
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={PADDING.top + plotHeight} stroke="#9ca3af" />
+        <text x={PADDING.left - 4} y={PADDING.top + 8} textAnchor="end" fontSize="10" fill="#6b7280">
+          {formatLevel(topAltitude / 1.1)}
+        </text>
+        <text x={PADDING.left - 4} y={PADDING.top + plotHeight} textAnchor="end" fontSize="10" fill="#6b7280">0</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize="10" fill="#6b7280">
+          {Math.round(profile.totalDistance)} nm
+        </text>
+
+        {/* Filed cruise level */}
+        {profile.filedAltitude !== null && (
+          <g>
+            <line
+              x1={PADDING.left}
+              y1={y(profile.filedAltitude)}
+              x2={WIDTH - PADDING.right}
+              y2={y(profile.filedAltitude)}
+              stroke="#9ca3af"
+              strokeDasharray="2, 4"
+            />
+            <text x={WIDTH - PADDING.right} y={y(profile.filedAltitude) - 3} textAnchor="end" fontSize="10" fill="#6b7280">
+              Filed {formatLevel(profile.filedAltitude)}
+            </text>
+          </g>
+        )}
+
+        {/* Predicted path */}
+        <polyline points={toPoints(profile.predicted)} fill="none" stroke="#2563eb" strokeWidth="2" strokeDasharray="6, 4" />
+
+        {/* Actual altitude history */}
+        <polyline points={toPoints(profile.history)} fill="none" stroke="#111827" strokeWidth="2" />
+
+        {/* Top of descent */}
+        {tod && todDistance !== null && (
+          <g>
+            <circle cx={x(todDistance)} cy={y(tod.fromAltitude)} r="4" fill="#7c3aed" />
+            <text x={x(todDistance)} y={y(tod.fromAltitude) - 8} textAnchor="middle" fontSize="10" fill="#7c3aed">T/D</text>
+          </g>
+        )}
+
+        <circle cx={x(profile.current.distance)} cy={y(profile.current.altitude)} r="4" fill="#2563eb" />
+      </svg>
+
+      {tod && (
+        <p className="text-sm text-gray-600 mt-1">
+          Top of descent {tod.distanceToGo > 0 ? `in ${tod.distanceToGo} nm` : 'passed'}
+          {tod.distanceToGo > 0 && tod.minutesToGo !== null && ` (~${tod.minutesToGo} min)`}
+          {' '}from {formatLevel(tod.fromAltitude)}, {tod.descentDistance} nm out at {tod.gradient.toFixed(1)}° / {tod.descentRate} fpm
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FlightEventType, WatchlistEntry, WatchlistState, WatchlistStatus } from '../types/vatsim';
+import {
+  createWatchlistEntry,
+  exportWatchlist,
+  importWatchlist,
+  loadWatchlist,
+  mergeWatchlists,
+  saveWatchlist,
+  watchlistKey
+} from '../utils/watchlist';
+import { fetchWatchlistStatuses } from '../utils/vatsim-client';
+import { FLIGHT_PHASE_LABELS } from '../utils/flight-phase';
+import {
+  detectFlightEvents,
+  FLIGHT_EVENT_LABELS,
+  FLIGHT_EVENT_TYPES,
+  notificationsSupported,
+  requestNotificationPermission,
+  shouldNotify,
+  showFlightNotification
+} from '../utils/flight-events';
+
+interface WatchlistProps {
+  onOpen: (entry: WatchlistEntry) => void;
+  disabled?: boolean;
+}
+
+const STATE_STYLES: Record<WatchlistState, string> = {
+  'offline': 'bg-gray-100 text-gray-600',
+  'prefiled': 'bg-yellow-100 text-yellow-800',
+  'on-ground': 'bg-blue-100 text-blue-800',
+  'airborne': 'bg-green-100 text-green-800'
+};
+
+const STATE_LABELS: Record<WatchlistState, string> = {
+  'offline': 'Offline',
+  'prefiled': 'Prefiled',
+  'on-ground': 'On ground',
+  'airborne': 'Airborne'
+};
+
+const STATUS_REFRESH_MS = 15000; // The feed only updates every 15 seconds
+
+const formatUtcTime = (iso: string): string => new Date(iso).toUTCString().slice(17, 22) + 'Z';
+
+export default function Watchlist({ onOpen, disabled }: WatchlistProps) {
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, WatchlistStatus>>({});
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+  const [nickname, setNickname] = useState('');
+  const [addError, setAddError] = useState('');
+  const [importError, setImportError] = useState('');
+  const [alertsFor, setAlertsFor] = useState<string | null>(null);
+  const [permissionError, setPermissionError] = useState('');
+  const [refreshError, setRefreshError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Last snapshot per entry, compared with the next one to find events
+  const statusesRef = useRef<Record<string, WatchlistStatus>>({});
+
+  useEffect(() => {
+    setEntries(loadWatchlist());
+  }, []);
+
+  // Poll the whole list in one request while it is non-empty
+  useEffect(() => {
+    if (entries.length === 0) {
+      setRefreshError('');
+      return;
+    }
+
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const { statuses: next } = await fetchWatchlistStatuses(entries);
+        if (cancelled) return;
+
+        for (const entry of entries) {
+          const key = watchlistKey(entry);
+          const status = next[key];
+          const previous = statusesRef.current[key];
+          if (!status) continue;
+          statusesRef.current[key] = status;
+
+          if (previous && entry.notifications.length > 0) {
+            const title = entry.nickname || status.callsign || previous.callsign || entry.value;
+            for (const event of detectFlightEvents(previous, status)) {
+              if (entry.notifications.includes(event.type) && shouldNotify(key, event.type)) {
+                showFlightNotification(title, event);
+              }
+            }
+          }
+        }
+        setStatuses(prev => ({ ...prev, ...next }));
+        setRefreshError('');
+      } catch (error) {
+        console.error('Error refreshing the watchlist:', error);
+        if (!cancelled) {
+          setRefreshError(error instanceof Error ? error.message : 'Failed to refresh the watchlist');
+        }
+      }
+    };
+
+    refresh();
+    const interval = setInterval(refresh, STATUS_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [entries]);
+
+  const updateEntries = (next: WatchlistEntry[]) => {
+    setEntries(next);
+    saveWatchlist(next);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const entry = createWatchlistEntry(value, nickname);
+    if (!entry) {
+      setAddError('A CID or callsign may only contain letters and digits.');
+      return;
+    }
+    setAddError('');
+    updateEntries(mergeWatchlists(entries, [entry]));
+    setValue('');
+    setNickname('');
+  };
+
+  const removeEntry = (entry: WatchlistEntry) => {
+    updateEntries(entries.filter(item => watchlistKey(item) !== watchlistKey(entry)));
+  };
+
+  const toggleNotification = async (entry: WatchlistEntry, type: FlightEventType) => {
+    const enabling = !entry.notifications.includes(type);
+    if (enabling && !(await requestNotificationPermission())) {
+      setPermissionError('Notifications are blocked for this site in your browser settings.');
+      return;
+    }
+    setPermissionError('');
+
+    const notifications = enabling
+      ? FLIGHT_EVENT_TYPES.filter(item => item === type || entry.notifications.includes(item))
+      : entry.notifications.filter(item => item !== type);
+    updateEntries(entries.map(item => watchlistKey(item) === watchlistKey(entry) ? { ...item, notifications } : item));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportWatchlist(entries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'vatsim-watchlist.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const imported = importWatchlist(await file.text());
+    if (!imported) {
+      setImportError('That file is not a watchlist export.');
+      return;
+    }
+    setImportError('');
+    updateEntries(mergeWatchlists(entries, imported));
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="bg-blue-600 text-white px-3 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors shadow-lg"
+        title="Pilots you follow"
+      >
+        Watchlist{entries.length > 0 && ` (${entries.length})`}
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-300 rounded-lg shadow-lg p-3 w-80 max-h-[80vh] overflow-y-auto">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-900">Watchlist</h3>
+        <button onClick={() => setOpen(false)} className="text-gray-500 hover:text-gray-700 text-sm" title="Close">
+          ✕
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-500 mb-3">Add a CID or callsign to follow it here.</p>
+      ) : (
+        <ul className="space-y-2 mb-3">
+          {entries.map(entry => {
+            const key = watchlistKey(entry);
+            const status = statuses[key];
+            return (
+              <li key={key} className="border border-gray-200 rounded p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    onClick={() => onOpen(entry)}
+                    disabled={disabled || status?.state === 'offline'}
+                    className="text-left min-w-0 flex-1 disabled:cursor-default"
+                    title="Open in the flight view"
+                  >
+                    <div className="text-sm font-medium text-gray-900 truncate">
+                      {entry.nickname || status?.callsign || entry.value}
+                    </div>
+                    <div className="text-xs font-mono text-gray-500 truncate">
+                      {entry.kind === 'cid' ? `CID ${entry.value}` : entry.value}
+                      {entry.kind === 'cid' && status?.callsign && ` · ${status.callsign}`}
+                    </div>
+                  </button>
+                  <span className={`text-xs px-2 py-0.5 rounded-full font-medium whitespace-nowrap ${status ? STATE_STYLES[status.state] : 'bg-gray-100 text-gray-500'}`}>
+                    {status ? STATE_LABELS[status.state] : '…'}
+                  </span>
+                  {notificationsSupported() && (
+                    <button
+                      onClick={() => setAlertsFor(alertsFor === key ? null : key)}
+                      className={`text-xs ${entry.notifications.length > 0 ? 'text-blue-600' : 'text-gray-400'} hover:text-blue-700`}
+                      title="Notification settings"
+                    >
+                      🔔
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeEntry(entry)}
+                    className="text-gray-400 hover:text-red-600 text-xs"
+                    title="Remove from watchlist"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {status && status.state !== 'offline' && (
+                  <div className="text-xs text-gray-600 mt-1">
+                    {status.departure && status.arrival && `${status.departure} → ${status.arrival}`}
+                    {status.phase && ` · ${FLIGHT_PHASE_LABELS[status.phase]}`}
+                    {status.eta && ` · ETA ${formatUtcTime(status.eta.arrivalTime)}`}
+                  </div>
+                )}
+                {alertsFor === key && (
+                  <div className="mt-2 pt-2 border-t border-gray-100 grid grid-cols-2 gap-1">
+                    {FLIGHT_EVENT_TYPES.map(type => (
+                      <label key={type} className="flex items-center gap-1 text-xs text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={entry.notifications.includes(type)}
+                          onChange={() => toggleNotification(entry, type)}
+                        />
+                        {FLIGHT_EVENT_LABELS[type]}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="CID or callsign"
+          className="w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          maxLength={10}
+        />
+        <input
+          type="text"
+          value={nickname}
+          onChange={(e) => setNickname(e.target.value)}
+          placeholder="Nickname (optional)"
+          className="w-full px-2 py-1 text-sm text-gray-900 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+          maxLength={40}
+        />
+        <button
+          type="submit"
+          className="w-full bg-blue-600 text-white px-2 py-1 rounded text-xs hover:bg-blue-700 transition-colors"
+          disabled={!value.trim()}
+        >
+          Add
+        </button>
+      </form>
+      {addError && <p className="text-xs text-red-600 mt-2">{addError}</p>}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={handleExport}
+          disabled={entries.length === 0}
+          className="flex-1 bg-gray-500 text-white px-2 py-1 rounded text-xs hover:bg-gray-600 transition-colors"
+        >
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 bg-gray-500 text-white px-2 py-1 rounded text-xs hover:bg-gray-600 transition-colors"
+        >
+          Import
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      {importError && <p className="text-xs text-red-600 mt-2">{importError}</p>}
+      {permissionError && <p className="text-xs text-red-600 mt-2">{permissionError}</p>}
+      {refreshError && <p className="text-xs text-red-600 mt-2">Could not refresh statuses: {refreshError}</p>}
+    </div>
+  );
+}
@@ -1,9 +1,40 @@
+// VATSIM v3 data feed (https://data.vatsim.net/v3/vatsim-data.json)
+
+export interface VatsimGeneral {
+  version: number;
+  reload: number;
+  update: string;
+  update_timestamp: string;
+  connected_clients: number;
+  unique_users: number;
+}
+
+export interface VatsimFlightPlan {
+  flight_rules: string;
+  aircraft: string;
+  aircraft_faa: string;
+  aircraft_short: string;
+  departure: string;
+  arrival: string;
+  alternate: string;
+  cruise_tas: string;
+  altitude: string;
+  deptime: string;
+  enroute_time: string;
+  fuel_time: string;
+  remarks: string;
+  route: string;
+  revision_id: number;
+  assigned_transponder?: string;
+}
+
 export interface VatsimPilot {
   cid: number;
   name: string;
   callsign: string;
   server: string;
   pilot_rating: number;
+  military_rating: number;
   latitude: number;
   longitude: number;
   altitude: number;
@@ -12,33 +43,101 @@ export interface VatsimPilot {
   heading: number;
   qnh_i_hg: number;
   qnh_mb: number;
-  flight_plan?: {
-    flight_rules: string;
-    aircraft: string;
-    aircraft_faa: string;
-    aircraft_short: string;
-    departure: string;
-    arrival: string;
-    alternate: string;
-    cruise_tas: string;
-    altitude: string;
-    deptime: string;
-    enroute_time: string;
-    fuel_time: string;
-    remarks: string;
-    route: string;
-    revision_id: number;
-    assigned_transponder?: string;
-  };
+  flight_plan?: VatsimFlightPlan;
   logon_time: string;
   last_updated: string;
 }
 
+export interface VatsimController {
+  cid: number;
+  name: string;
+  callsign: string;
+  frequency: string;
+  facility: number;
+  rating: number;
+  server: string;
+  visual_range: number;
+  text_atis: string[] | null;
+  last_updated: string;
+  logon_time: string;
+}
+
+export interface VatsimATIS extends VatsimController {
+  atis_code: string | null;
+}
+
+export interface VatsimServer {
+  ident: string;
+  hostname_or_ip: string;
+  location: string;
+  name: string;
+  clients_connection_allowed: number;
+  client_connections_allowed: boolean;
+  is_sweatbox: boolean;
+}
+
+export interface VatsimPrefile {
+  cid: number;
+  name: string;
+  callsign: string;
+  flight_plan: VatsimFlightPlan;
+  last_updated: string;
+}
+
+export interface VatsimFacility {
+  id: number;
+  short: string;
+  long: string;
+}
+
+export interface VatsimRating {
+  id: number;
+  short: string;
+  long: string;
+}
+
+export interface VatsimPilotRating {
+  id: number;
+  short_name: string;
+  long_name: string;
+}
+
+export interface VatsimData {
+  general: VatsimGeneral;
+  pilots: VatsimPilot[];
+  controllers: VatsimController[];
+  atis: VatsimATIS[];
+  servers: VatsimServer[];
+  prefiles: VatsimPrefile[];
+  facilities: VatsimFacility[];
+  ratings: VatsimRating[];
+  pilot_ratings: VatsimPilotRating[];
+  military_ratings: VatsimPilotRating[];
+}
+
+// VATSIM transceivers feed (https://data.vatsim.net/v3/transceivers-data.json)
+
+export interface VatsimTransceiver {
+  id: number;
+  frequency: number; // Hz
+  latDeg: number;
+  lonDeg: number;
+  heightMslM: number;
+  heightAglM: number;
+}
+
+export interface VatsimTransceiverEntry {
+  callsign: string;
+  transceivers: VatsimTransceiver[];
+}
+
 export interface VatsimAirport {
   icao: string;
   name: string;
   city?: string;
   country?: string;
+  latitude?: number;
+  longitude?: number;
 }
 
 export interface MetarData {
@@ -47,24 +146,373 @@ export interface MetarData {
   time: string;
 }
 
-export interface VatsimATIS {
+export interface AtisData {
+  icao: string;
+  atis?: string;
+  callsign?: string;
+  frequency?: string;
+  time?: string;
+}
+
+export interface CurrentFIR {
+  id: string;
+  name: string;
+  isOceanic: boolean;
+}
+
+export type EtaConfidence = 'high' | 'medium' | 'low';
+
+export interface EtaEstimate {
+  distance: number; // nautical miles remaining
+  durationMinutes: number;
+  arrivalTime: string; // ISO timestamp
+  basis: 'route' | 'direct' | 'filed-time'; // how the remaining distance/time was measured
+  confidence: EtaConfidence;
+}
+
+export interface ResolvedWaypoint {
+  ident: string;
+  latitude: number;
+  longitude: number;
+  kind: 'airport' | 'fix' | 'vor' | 'ndb' | 'dme' | 'coordinate';
+  via: string | null; // airway used to reach this point, null for direct
+}
+
+export interface ResolvedRoute {
+  waypoints: ResolvedWaypoint[];
+  unresolved: string[];
+  totalDistance: number; // nautical miles
+}
+
+export type FlightPhase =
+  | 'preflight'
+  | 'taxi-out'
+  | 'takeoff'
+  | 'climb'
+  | 'cruise'
+  | 'step-climb'
+  | 'step-descent'
+  | 'descent'
+  | 'approach'
+  | 'landed'
+  | 'taxi-in'
+  | 'arrived';
+
+export interface FlightPhaseTransition {
+  phase: FlightPhase;
+  at: string; // ISO timestamp of the feed update that confirmed the change
+}
+
+export interface FlightPhaseInfo {
+  phase: FlightPhase;
+  since: string;
+  transitions: FlightPhaseTransition[];
+}
+
+export type ScheduleStatus = 'scheduled' | 'on-time' | 'delayed' | 'early' | 'unknown';
+
+// Filed times from the flight plan compared against what actually happened
+export interface FlightSchedule {
+  scheduledOffBlock: string | null; // ISO timestamps
+  scheduledArrival: string | null;
+  fuelExhaustion: string | null;
+  actualTakeoff: string | null;
+  actualLanding: string | null;
+  departureDelay: number | null; // minutes, positive when late
+  arrivalDelay: number | null;
+  status: ScheduleStatus;
+  fuelMargin: number | null; // minutes of fuel left at the estimated arrival
+  reserveMinutes: number;
+  warnings: string[];
+}
+
+export interface PositionSample {
+  timestamp: number; // ms since epoch, from the pilot's last_updated
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  groundspeed: number;
+  heading: number;
+}
+
+export type VoiceCapability = 'voice' | 'receive-only' | 'text-only';
+
+export interface PbnCapability {
+  code: string; // e.g. "D1"
+  description: string;
+}
+
+export interface EetEntry {
+  location: string; // FIR or boundary point
+  elapsed: string; // HHMM as filed
+  minutes: number;
+}
+
+// A FIR ahead of the aircraft with the predicted and filed (EET/) entry times
+export interface FIRSequenceEntry {
+  id: string; // Boundaries.geojson id
+  name: string;
+  isOceanic: boolean;
+  current: boolean; // the FIR the aircraft is in now
+  distance: number; // nautical miles to the boundary, 0 for the current FIR
+  entryTime: string | null; // ISO timestamp, null for the current FIR or without a speed
+  filedEntryTime: string | null; // departure plus the EET/ elapsed time
+  differenceMinutes: number | null; // predicted minus filed, positive when later than filed
+  staffed: boolean;
+}
+
+export interface FIRSequence {
+  entries: FIRSequenceEntry[];
+  basis: 'route' | 'direct'; // filed route or great circle to the arrival airport
+  unmatchedEet: EetEntry[]; // filed EET/ points ahead that the predicted path doesn't enter
+}
+
+// ICAO Item 18 indicators and VATSIM voice code decoded from flight plan remarks
+export interface DecodedRemarks {
+  voice: VoiceCapability | null;
+  registration: string | null;
+  operator: string | null;
+  selcal: string | null;
+  dateOfFlight: string | null; // YYYY-MM-DD
+  navigation: string | null;
+  pbn: PbnCapability[];
+  eet: EetEntry[];
+  remarks: string | null;
+  other: Record<string, string>; // remaining indicators, e.g. PER, SUR, STS
+}
+
+export interface EquipmentCode {
+  code: string;
+  description: string;
+}
+
+// Decoded aircraft/equipment strings (flight_plan.aircraft and aircraft_faa)
+export interface DecodedEquipment {
+  aircraftType: string;
+  wakeCategory: EquipmentCode | null;
+  icaoEquipment: EquipmentCode[];
+  surveillance: EquipmentCode[];
+  faaSuffix: EquipmentCode | null;
+  capabilities: {
+    rnav: boolean | null; // null when the flight plan doesn't say
+    rvsm: boolean | null;
+    adsb: boolean | null;
+  };
+  summary: string[];
+  warnings: string[];
+}
+
+export type AircraftEngineType = 'jet' | 'turboprop' | 'piston' | 'turboshaft' | 'none';
+
+export type AircraftCategory =
+  | 'airliner'
+  | 'regional'
+  | 'cargo'
+  | 'business'
+  | 'general-aviation'
+  | 'helicopter'
+  | 'military';
+
+export interface AircraftTypeInfo {
+  icao: string;
+  manufacturer: string;
+  model: string;
+  wtc: 'L' | 'M' | 'H' | 'J';
+  engineType: AircraftEngineType;
+  engineCount: number;
+  cruiseSpeed: number; // typical cruise TAS in knots
+  ceiling: number; // service ceiling in feet
+  category: AircraftCategory;
+  icon: string; // file name in public/aircraft, without extension
+}
+
+// Server-computed details returned alongside a pilot by the /api/pilot routes
+export interface PilotEnrichment {
+  departure: VatsimAirport | null;
+  arrival: VatsimAirport | null;
+  alternate: VatsimAirport | null;
+  currentFIR: CurrentFIR | null;
+  activeFrequency: string | null;
+  radio: RadioStatus;
+  eta: EtaEstimate | null;
+  route: ResolvedRoute | null;
+  remarks: DecodedRemarks | null;
+  equipment: DecodedEquipment | null;
+  phase: FlightPhaseInfo;
+  schedule: FlightSchedule | null;
+  squawk: SquawkValidation;
+  coverage: ControllerCoverage;
+  staffedFIRs: string[]; // Boundaries.geojson ids with an online centre, FSS or UIR
+  firSequence: FIRSequence | null;
+  airportAtc: {
+    departure: AirportAtcStatus | null;
+    arrival: AirportAtcStatus | null;
+    alternate: AirportAtcStatus | null;
+  };
+}
+
+export interface PilotLookupResult {
+  pilot: VatsimPilot;
+  enrichment: PilotEnrichment;
+  updateTimestamp: string;
+}
+
+// Returned by the /api/prefile routes for flight plans filed before connecting
+export type PrefileEnrichment = Pick<PilotEnrichment, 'departure' | 'arrival' | 'alternate' | 'route' | 'remarks' | 'equipment'>;
+
+export interface PrefileLookupResult {
+  prefile: VatsimPrefile;
+  enrichment: PrefileEnrichment;
+  updateTimestamp: string;
+}
+
+export type FlightEventType =
+  | 'logon'
+  | 'takeoff'
+  | 'fir-crossing'
+  | 'top-of-descent'
+  | 'landing'
+  | 'disconnect'
+  | 'emergency-squawk'
+  | 'frequency-change';
+
+export interface FlightEvent {
+  type: FlightEventType;
+  message: string;
+}
+
+// A pilot followed in the watchlist, by CID or by callsign
+export interface WatchlistEntry {
+  kind: 'cid' | 'callsign';
+  value: string; // CID digits or upper-case callsign
+  nickname: string;
+  notifications: FlightEventType[]; // events this flight raises browser notifications for
+}
+
+export type WatchlistState = 'offline' | 'prefiled' | 'on-ground' | 'airborne';
+
+export interface WatchlistStatus {
+  state: WatchlistState;
+  callsign: string | null;
+  departure: string | null;
+  arrival: string | null;
+  phase: FlightPhase | null;
+  eta: EtaEstimate | null;
+  transponder: string | null;
+  currentFIR: CurrentFIR | null;
+  activeFrequency: string | null;
+  checkedAt: string; // ISO timestamp
+}
+
+export interface WatchlistLookupResult {
+  statuses: Record<string, WatchlistStatus>; // keyed by "cid:1234567" or "callsign:BAW123"
+  updateTimestamp: string;
+}
+
+// A pilot squawking 7500/7600/7700, as listed by the /api/emergencies monitor
+export interface EmergencySquawk {
   cid: number;
+  callsign: string;
   name: string;
+  code: string;
+  meaning: string;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  groundspeed: number;
+  heading: number;
+  aircraft: string | null;
+  departure: string | null;
+  arrival: string | null;
+  currentFIR: CurrentFIR | null;
+  firstSeen: string; // ISO timestamp of the first feed update showing this code
+}
+
+export interface EmergencyMonitorResult {
+  emergencies: EmergencySquawk[];
+  updateTimestamp: string;
+}
+
+// Every pilot's position, as served by /api/positions for network-wide FIR counts
+export interface NetworkPositionsResult {
+  positions: { callsign: string; latitude: number; longitude: number }[];
+  updateTimestamp: string;
+}
+
+export type SquawkSeverity = 'ok' | 'advisory' | 'warning' | 'alert';
+
+export interface SquawkIssue {
+  check: 'emergency' | 'assigned-code' | 'conspicuity-code' | 'duplicate-code';
+  severity: SquawkSeverity;
+  message: string;
+}
+
+// Transponder code checked against the assigned code, the airspace and nearby traffic
+export interface SquawkValidation {
+  code: string;
+  assigned: string | null;
+  severity: SquawkSeverity; // the worst issue, 'ok' when there are none
+  issues: SquawkIssue[];
+  duplicates: string[]; // callsigns on the same code within the duplicate radius
+}
+
+// An online en-route station matched to its VATSpy FIR or UIR
+export interface CoveringStation {
   callsign: string;
   frequency: string;
-  facility: number;
-  rating: number;
-  server: string;
-  visual_range: number;
-  text_atis?: string[];
-  last_updated: string;
-  logon_time: string;
+  name: string; // VATSpy sector name, e.g. "Langen Radar (Baden) - Langen"
+  controllerName: string;
+  airspace: string; // VATSpy FIR ICAO (sectors like "EDGG-BAD") or UIR id
+  facility: 'CTR' | 'FSS' | 'UIR';
 }
 
-export interface AtisData {
+// Who is working the pilot's position, lowest responsible unit first
+export interface ControllerCoverage {
+  station: CoveringStation | null; // CTR, or FSS when no centre covers it
+  uir: CoveringStation | null; // online UIR above the FIR
+}
+
+// A controller or ATIS station found on a frequency the pilot is tuned to
+export interface TunedStation {
+  callsign: string;
+  frequency: string; // MHz, e.g. "132.600"
+  name: string; // spoken name, e.g. "London Control"
+  controllerName: string;
+  kind: 'controller' | 'atis';
+  atisCode: string | null;
+}
+
+export interface TunedRadio {
+  label: string; // COM1, COM2
+  frequency: string;
+  station: TunedStation | null;
+  unicom: boolean;
+}
+
+export interface RadioStatus {
+  radios: TunedRadio[];
+  expected: TunedStation | null; // the station controlling the aircraft's position
+  notOnExpected: boolean; // airborne under an online controller but tuned elsewhere
+}
+
+export type AirportService = 'DEL' | 'GND' | 'TWR' | 'APP' | 'ATIS';
+
+export interface AtcPosition {
+  callsign: string;
+  frequency: string;
+  controllerName: string;
+  atisCode: string | null; // ATIS stations only
+}
+
+export interface AirportServiceStatus {
+  service: AirportService;
+  stations: AtcPosition[]; // positions logged on for this service
+  providedBy: AtcPosition | null; // lowest online position providing it, top-down included
+  topDown: boolean; // provided by a higher position because nobody is on this one
+}
+
+export interface AirportAtcStatus {
   icao: string;
-  atis?: string;
-  callsign?: string;
-  frequency?: string;
-  time?: string;
-}
\ No newline at end of file
+  services: AirportServiceStatus[];
+  atis: AtisData | null; // broadcast of the first ATIS station, null when none is online
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEquipment } from './aircraft-equipment';
+
+const decode = (aircraft: string, aircraftFaa = '', altitude = '35000') =>
+  decodeEquipment({ aircraft, aircraft_faa: aircraftFaa, aircraft_short: '', altitude });
+
+describe('decodeEquipment', () => {
+  it('reads a full ICAO aircraft string', () => {
+    const equipment = decode('A320/M-SDE2E3FGHIJ1RWY/LB1');
+    expect(equipment.aircraftType).toBe('A320');
+    expect(equipment.wakeCategory?.code).toBe('M');
+    expect(equipment.faaSuffix).toBeNull();
+    expect(equipment.capabilities).toEqual({ rnav: true, rvsm: true, adsb: true });
+  });
+
+  it('reads a lone letter after an ICAO type as the wake category', () => {
+    const equipment = decode('A320/M');
+    expect(equipment.aircraftType).toBe('A320');
+    expect(equipment.wakeCategory?.code).toBe('M');
+    expect(equipment.faaSuffix).toBeNull();
+    expect(equipment.capabilities).toEqual({ rnav: null, rvsm: null, adsb: null });
+  });
+
+  it('still reads the FAA suffix from the FAA field and after a wake prefix', () => {
+    expect(decode('A320/M', 'A320/L').faaSuffix?.code).toBe('L');
+
+    const heavy = decode('H/B744/L');
+    expect(heavy.wakeCategory?.code).toBe('H');
+    expect(heavy.faaSuffix?.code).toBe('L');
+    expect(heavy.capabilities.rvsm).toBe(true);
+  });
+
+  it('reads L and M wake prefixes', () => {
+    const equipment = decode('', 'L/C172/G', '5500');
+    expect(equipment.aircraftType).toBe('C172');
+    expect(equipment.wakeCategory?.code).toBe('L');
+    expect(equipment.faaSuffix?.code).toBe('G');
+  });
+
+  it('warns about RVSM levels filed without approval', () => {
+    expect(decode('B738/M-SDFGR/C').warnings).toEqual(['Filed FL350 in RVSM airspace without RVSM approval']);
+  });
+});
@@ -0,0 +1,219 @@
+import { DecodedEquipment, EquipmentCode, VatsimFlightPlan } from '../types/vatsim';
+import { parseFiledAltitude } from './flight-plan-fields';
+
+// Decoder for the aircraft strings in a VATSIM flight plan:
+//   aircraft      ICAO format  "A320/M-SDE2E3FGHIJ1RWY/LB1" (older plans: "H/B744/L")
+//   aircraft_faa  FAA format   "B738/L", "H/B744/L"
+
+const WAKE_CATEGORIES: Record<string, string> = {
+  L: 'Light',
+  M: 'Medium',
+  H: 'Heavy',
+  J: 'Super'
+};
+
+// ICAO Item 10a - radio communication, navigation and approach aid equipment
+const ICAO_EQUIPMENT: Record<string, string> = {
+  N: 'No COM/NAV/approach aid equipment',
+  S: 'Standard equipment (VHF RTF, VOR, ILS)',
+  A: 'GBAS landing system',
+  B: 'LPV (APV with SBAS)',
+  C: 'LORAN C',
+  D: 'DME',
+  E1: 'FMC WPR ACARS',
+  E2: 'D-FIS ACARS',
+  E3: 'PDC ACARS',
+  F: 'ADF',
+  G: 'GNSS',
+  H: 'HF RTF',
+  I: 'Inertial navigation',
+  J1: 'CPDLC ATN VDL Mode 2',
+  J2: 'CPDLC FANS 1/A HFDL',
+  J3: 'CPDLC FANS 1/A VDL Mode A',
+  J4: 'CPDLC FANS 1/A VDL Mode 2',
+  J5: 'CPDLC FANS 1/A SATCOM (INMARSAT)',
+  J6: 'CPDLC FANS 1/A SATCOM (MTSAT)',
+  J7: 'CPDLC FANS 1/A SATCOM (Iridium)',
+  K: 'MLS',
+  L: 'ILS',
+  M1: 'ATC SATVOICE (INMARSAT)',
+  M2: 'ATC SATVOICE (MTSAT)',
+  M3: 'ATC SATVOICE (Iridium)',
+  O: 'VOR',
+  P1: 'CPDLC RCP 400',
+  P2: 'CPDLC RCP 240',
+  P3: 'SATVOICE RCP 400',
+  R: 'PBN approved',
+  T: 'TACAN',
+  U: 'UHF RTF',
+  V: 'VHF RTF',
+  W: 'RVSM approved',
+  X: 'MNPS approved',
+  Y: 'VHF with 8.33 kHz spacing',
+  Z: 'Other equipment (see Item 18)'
+};
+
+// ICAO Item 10b - surveillance equipment
+const ICAO_SURVEILLANCE: Record<string, string> = {
+  N: 'No surveillance equipment',
+  A: 'Mode A transponder',
+  C: 'Mode A and C transponder',
+  E: 'Mode S with aircraft ID, pressure altitude and extended squitter',
+  H: 'Mode S with aircraft ID, pressure altitude and enhanced surveillance',
+  I: 'Mode S with aircraft ID, no pressure altitude',
+  L: 'Mode S with aircraft ID, pressure altitude, extended squitter and enhanced surveillance',
+  P: 'Mode S with pressure altitude, no aircraft ID',
+  S: 'Mode S with aircraft ID and pressure altitude',
+  X: 'Mode S without aircraft ID or pressure altitude',
+  B1: 'ADS-B out (1090 ES)',
+  B2: 'ADS-B out and in (1090 ES)',
+  U1: 'ADS-B out (UAT)',
+  U2: 'ADS-B out and in (UAT)',
+  V1: 'ADS-B out (VDL Mode 4)',
+  V2: 'ADS-B out and in (VDL Mode 4)',
+  D1: 'ADS-C with FANS 1/A',
+  G1: 'ADS-C with ATN'
+};
+
+// FAA domestic equipment suffixes
+const FAA_SUFFIXES: Record<string, string> = {
+  X: 'No DME, no transponder',
+  T: 'No DME, transponder without Mode C',
+  U: 'No DME, transponder with Mode C',
+  D: 'DME, no transponder',
+  B: 'DME, transponder without Mode C',
+  A: 'DME, transponder with Mode C',
+  M: 'TACAN, no transponder',
+  N: 'TACAN, transponder without Mode C',
+  P: 'TACAN, transponder with Mode C',
+  Y: 'RNAV, no transponder',
+  C: 'RNAV, transponder without Mode C',
+  I: 'RNAV, transponder with Mode C',
+  V: 'GNSS, no transponder',
+  S: 'GNSS, transponder without Mode C',
+  G: 'GNSS, transponder with Mode C',
+  E: 'FMS with DME/DME and IRU',
+  F: 'FMS with DME/DME',
+  R: 'RNP capable',
+  W: 'RVSM, no RNAV',
+  Z: 'RVSM with RNAV, no GNSS',
+  L: 'RVSM with GNSS',
+  J: 'RVSM with FMS (DME/DME and IRU)',
+  K: 'RVSM with FMS (DME/DME)',
+  Q: 'RVSM with RNP'
+};
+
+const FAA_RNAV_SUFFIXES = ['Y', 'C', 'I', 'V', 'S', 'G', 'E', 'F', 'R', 'Z', 'L', 'J', 'K', 'Q'];
+const FAA_RVSM_SUFFIXES = ['W', 'Z', 'L', 'J', 'K', 'Q'];
+const ADSB_CODES = ['B1', 'B2', 'U1', 'U2', 'V1', 'V2', 'E', 'L'];
+
+// RVSM airspace: FL290 to FL410 inclusive
+const RVSM_LOWER_FT = 29000;
+const RVSM_UPPER_FT = 41000;
+
+function decodeCodes(value: string, pattern: RegExp, table: Record<string, string>): EquipmentCode[] {
+  return (value.match(pattern) || []).map(code => ({
+    code,
+    description: table[code] || 'Unknown code'
+  }));
+}
+
+interface SplitAircraft {
+  type: string;
+  wake: string | null;
+  equipment: string | null;
+  surveillance: string | null;
+  faaSuffix: string | null;
+}
+
+// Split either aircraft string format into its parts
+function splitAircraftString(aircraft: string, icaoField: boolean): SplitAircraft {
+  let value = aircraft.trim().toUpperCase();
+  let wake: string | null = null;
+
+  // FAA-style wake prefix: "H/B744/L", "J/A388/L", "L/C172/G"
+  const prefix = value.match(/^([LMHJ])\//);
+  if (prefix) {
+    wake = prefix[1];
+    value = value.slice(2);
+  }
+
+  // ICAO: TYPE/W-EQUIPMENT/SURVEILLANCE
+  const icao = value.match(/^([A-Z0-9]{2,4})\/([LMHJ])-([A-Z0-9]*)(?:\/([A-Z0-9]*))?$/);
+  if (icao) {
+    return {
+      type: icao[1],
+      wake: icao[2],
+      equipment: icao[3],
+      surveillance: icao[4] ?? null,
+      faaSuffix: null
+    };
+  }
+
+  // ICAO type and wake category without equipment: "A320/M". Only in the ICAO field and without a
+  // wake prefix, as "B738/L" in the FAA field and "H/B744/L" are FAA suffixes
+  const wakeOnly = value.match(/^([A-Z0-9]{2,4})\/([LMHJ])$/);
+  if (wakeOnly && icaoField && !wake) {
+    return { type: wakeOnly[1], wake: wakeOnly[2], equipment: null, surveillance: null, faaSuffix: null };
+  }
+
+  // FAA: TYPE/SUFFIX
+  const faa = value.match(/^([A-Z0-9]{2,4})(?:\/([A-Z]))?$/);
+  if (faa) {
+    return { type: faa[1], wake, equipment: null, surveillance: null, faaSuffix: faa[2] ?? null };
+  }
+
+  return { type: value.split('/')[0], wake, equipment: null, surveillance: null, faaSuffix: null };
+}
+
+export function decodeEquipment(flightPlan: Pick<VatsimFlightPlan, 'aircraft' | 'aircraft_faa' | 'aircraft_short' | 'altitude'>): DecodedEquipment {
+  const icao = splitAircraftString(flightPlan.aircraft || '', true);
+  const faa = splitAircraftString(flightPlan.aircraft_faa || '', false);
+
+  const wakeCode = icao.wake ?? faa.wake;
+  const icaoEquipment = icao.equipment
+    ? decodeCodes(icao.equipment, /E[1-3]|J[1-7]|M[1-3]|P[1-9]|[A-Z]/g, ICAO_EQUIPMENT)
+    : [];
+  const surveillance = icao.surveillance
+    ? decodeCodes(icao.surveillance, /[BUV][12]|[DG]1|[A-Z]/g, ICAO_SURVEILLANCE)
+    : [];
+  const faaSuffixCode = faa.faaSuffix ?? icao.faaSuffix;
+
+  const equipmentCodes = icaoEquipment.map(item => item.code);
+  const surveillanceCodes = surveillance.map(item => item.code);
+  const hasIcaoEquipment = icaoEquipment.length > 0;
+
+  // ICAO equipment is the more detailed source; fall back to the FAA suffix
+  const rnav = hasIcaoEquipment
+    ? equipmentCodes.includes('R') || equipmentCodes.includes('G')
+    : faaSuffixCode ? FAA_RNAV_SUFFIXES.includes(faaSuffixCode) : null;
+  const rvsm = hasIcaoEquipment
+    ? equipmentCodes.includes('W')
+    : faaSuffixCode ? FAA_RVSM_SUFFIXES.includes(faaSuffixCode) : null;
+  const adsb = surveillance.length > 0
+    ? surveillanceCodes.some(code => ADSB_CODES.includes(code))
+    : null;
+
+  const summary: string[] = [];
+  if (rnav !== null) summary.push(rnav ? 'RNAV capable' : 'Not RNAV capable');
+  if (rvsm !== null) summary.push(rvsm ? 'RVSM approved' : 'Not RVSM approved');
+  if (adsb !== null) summary.push(adsb ? 'ADS-B out equipped' : 'No ADS-B');
+  if (equipmentCodes.some(code => code.startsWith('J'))) summary.push('CPDLC capable');
+
+  const warnings: string[] = [];
+  const filedAltitude = parseFiledAltitude(flightPlan.altitude || '');
+  if (rvsm === false && filedAltitude !== null && filedAltitude >= RVSM_LOWER_FT && filedAltitude <= RVSM_UPPER_FT) {
+    warnings.push(`Filed FL${Math.round(filedAltitude / 100)} in RVSM airspace without RVSM approval`);
+  }
+
+  return {
+    aircraftType: flightPlan.aircraft_short || icao.type || faa.type,
+    wakeCategory: wakeCode ? { code: wakeCode, description: WAKE_CATEGORIES[wakeCode] } : null,
+    icaoEquipment,
+    surveillance,
+    faaSuffix: faaSuffixCode ? { code: faaSuffixCode, description: FAA_SUFFIXES[faaSuffixCode] || 'Unknown suffix' } : null,
+    capabilities: { rnav, rvsm, adsb },
+    summary,
+    warnings
+  };
+}
@@ -0,0 +1,411 @@
+import { AircraftCategory, AircraftEngineType, AircraftTypeInfo } from '../types/vatsim';
+
+// Static aircraft type database keyed by ICAO type designator (Doc 8643).
+// Every entry points at an icon in public/aircraft; variants without their own
+// drawing share the icon of the closest family member (e.g. A21N -> a321).
+// Performance figures are typical values, good enough for estimates.
+
+type AircraftRow = [
+  string,             // ICAO designator
+  string,             // manufacturer
+  string,             // model
+  AircraftTypeInfo['wtc'],
+  AircraftEngineType,
+  number,             // engine count
+  number,             // cruise TAS (kt)
+  number,             // ceiling (ft)
+  AircraftCategory,
+  string              // icon
+];
+
+const AIRCRAFT_ROWS: AircraftRow[] = [
+  ['A10', 'Fairchild Republic', 'A-10 Thunderbolt II', 'M', 'jet', 2, 300, 45000, 'military', 'a10'],
+  ['A124', 'Antonov', 'An-124 Ruslan', 'H', 'jet', 4, 430, 39400, 'cargo', 'a124'],
+  ['A139', 'AgustaWestland', 'AW139', 'L', 'turboshaft', 2, 145, 20000, 'helicopter', 'a139'],
+  ['A149', 'AgustaWestland', 'AW149', 'M', 'turboshaft', 2, 150, 15000, 'helicopter', 'a149'],
+  ['A169', 'AgustaWestland', 'AW169', 'L', 'turboshaft', 2, 140, 15000, 'helicopter', 'a169'],
+  ['A189', 'AgustaWestland', 'AW189', 'M', 'turboshaft', 2, 145, 15000, 'helicopter', 'a189'],
+  ['A19N', 'Airbus', 'A319neo', 'M', 'jet', 2, 450, 39800, 'airliner', 'a319'],
+  ['A20N', 'Airbus', 'A320neo', 'M', 'jet', 2, 450, 39800, 'airliner', 'a20n'],
+  ['A21N', 'Airbus', 'A321neo', 'M', 'jet', 2, 450, 39800, 'airliner', 'a321'],
+  ['A225', 'Antonov', 'An-225 Mriya', 'H', 'jet', 6, 430, 36000, 'cargo', 'a225'],
+  ['A306', 'Airbus', 'A300-600', 'H', 'jet', 2, 470, 40000, 'airliner', 'a300'],
+  ['A30B', 'Airbus', 'A300B2/B4', 'H', 'jet', 2, 470, 35000, 'airliner', 'a300'],
+  ['A310', 'Airbus', 'A310', 'H', 'jet', 2, 460, 41000, 'airliner', 'a310'],
+  ['A318', 'Airbus', 'A318', 'M', 'jet', 2, 450, 41000, 'airliner', 'a318'],
+  ['A319', 'Airbus', 'A319', 'M', 'jet', 2, 450, 39800, 'airliner', 'a319'],
+  ['A320', 'Airbus', 'A320', 'M', 'jet', 2, 450, 39800, 'airliner', 'a320'],
+  ['A321', 'Airbus', 'A321', 'M', 'jet', 2, 450, 39800, 'airliner', 'a321'],
+  ['A332', 'Airbus', 'A330-200', 'H', 'jet', 2, 470, 41100, 'airliner', 'a332'],
+  ['A333', 'Airbus', 'A330-300', 'H', 'jet', 2, 470, 41100, 'airliner', 'a333'],
+  ['A337', 'Airbus', 'A330-743L BelugaXL', 'H', 'jet', 2, 430, 35000, 'cargo', 'a3st'],
+  ['A338', 'Airbus', 'A330-800neo', 'H', 'jet', 2, 470, 41450, 'airliner', 'a338'],
+  ['A339', 'Airbus', 'A330-900neo', 'H', 'jet', 2, 470, 41450, 'airliner', 'a339'],
+  ['A342', 'Airbus', 'A340-200', 'H', 'jet', 4, 470, 41100, 'airliner', 'a342'],
+  ['A343', 'Airbus', 'A340-300', 'H', 'jet', 4, 470, 41100, 'airliner', 'a343'],
+  ['A345', 'Airbus', 'A340-500', 'H', 'jet', 4, 480, 41100, 'airliner', 'a345'],
+  ['A346', 'Airbus', 'A340-600', 'H', 'jet', 4, 480, 41100, 'airliner', 'a346'],
+  ['A359', 'Airbus', 'A350-900', 'H', 'jet', 2, 488, 43100, 'airliner', 'a359'],
+  ['A35K', 'Airbus', 'A350-1000', 'H', 'jet', 2, 488, 41450, 'airliner', 'a35k'],
+  ['A388', 'Airbus', 'A380-800', 'J', 'jet', 4, 488, 43000, 'airliner', 'a388'],
+  ['A3ST', 'Airbus', 'A300-600ST Beluga', 'H', 'jet', 2, 420, 35000, 'cargo', 'a3st'],
+  ['A400', 'Airbus', 'A400M Atlas', 'H', 'turboprop', 4, 420, 40000, 'military', 'a400'],
+  ['A748', 'Hawker Siddeley', 'HS 748', 'M', 'turboprop', 2, 240, 25000, 'regional', 'a748'],
+  ['AN2', 'Antonov', 'An-2', 'L', 'piston', 1, 100, 14000, 'general-aviation', 'an2'],
+  ['AN24', 'Antonov', 'An-24', 'M', 'turboprop', 2, 240, 27500, 'regional', 'an24'],
+  ['AS32', 'Airbus Helicopters', 'AS332 Super Puma', 'M', 'turboshaft', 2, 140, 17000, 'helicopter', 'as32'],
+  ['AS50', 'Airbus Helicopters', 'AS350 Ecureuil', 'L', 'turboshaft', 1, 130, 15000, 'helicopter', 'as50'],
+  ['AT43', 'ATR', 'ATR 42-300', 'M', 'turboprop', 2, 270, 25000, 'regional', 'at4x'],
+  ['AT45', 'ATR', 'ATR 42-500', 'M', 'turboprop', 2, 270, 25000, 'regional', 'at4x'],
+  ['AT46', 'ATR', 'ATR 42-600', 'M', 'turboprop', 2, 270, 25000, 'regional', 'at4x'],
+  ['AT72', 'ATR', 'ATR 72-200', 'M', 'turboprop', 2, 275, 25000, 'regional', 'at7x'],
+  ['AT75', 'ATR', 'ATR 72-500', 'M', 'turboprop', 2, 275, 25000, 'regional', 'at7x'],
+  ['AT76', 'ATR', 'ATR 72-600', 'M', 'turboprop', 2, 275, 25000, 'regional', 'at7x'],
+  ['ATP', 'British Aerospace', 'ATP', 'M', 'turboprop', 2, 260, 25000, 'regional', 'atp'],
+  ['B06', 'Bell', '206 JetRanger', 'L', 'turboshaft', 1, 110, 13500, 'helicopter', 'b06'],
+  ['B1', 'Rockwell', 'B-1 Lancer', 'H', 'jet', 4, 540, 60000, 'military', 'b1'],
+  ['B105', 'MBB', 'Bo 105', 'L', 'turboshaft', 2, 110, 17000, 'helicopter', 'b105'],
+  ['B190', 'Beechcraft', '1900', 'M', 'turboprop', 2, 270, 25000, 'regional', 'b190'],
+  ['B2', 'Northrop Grumman', 'B-2 Spirit', 'H', 'jet', 4, 480, 50000, 'military', 'b2'],
+  ['B350', 'Beechcraft', 'King Air 350', 'L', 'turboprop', 2, 300, 35000, 'business', 'b350'],
+  ['B37M', 'Boeing', '737 MAX 7', 'M', 'jet', 2, 453, 41000, 'airliner', 'b37m'],
+  ['B38M', 'Boeing', '737 MAX 8', 'M', 'jet', 2, 453, 41000, 'airliner', 'b38m'],
+  ['B39M', 'Boeing', '737 MAX 9', 'M', 'jet', 2, 453, 41000, 'airliner', 'b39m'],
+  ['B3XM', 'Boeing', '737 MAX 10', 'M', 'jet', 2, 453, 41000, 'airliner', 'b39m'],
+  ['B407', 'Bell', '407', 'L', 'turboshaft', 1, 130, 18000, 'helicopter', 'b407'],
+  ['B461', 'British Aerospace', '146-100', 'M', 'jet', 4, 400, 31000, 'regional', 'b461'],
+  ['B462', 'British Aerospace', '146-200', 'M', 'jet', 4, 400, 31000, 'regional', 'b462'],
+  ['B463', 'British Aerospace', '146-300', 'M', 'jet', 4, 400, 31000, 'regional', 'b463'],
+  ['B703', 'Boeing', '707-320', 'H', 'jet', 4, 470, 42000, 'airliner', 'b703'],
+  ['B712', 'Boeing', '717-200', 'M', 'jet', 2, 440, 37000, 'airliner', 'b712'],
+  ['B720', 'Boeing', '720', 'M', 'jet', 4, 470, 42000, 'airliner', 'b720'],
+  ['B721', 'Boeing', '727-100', 'M', 'jet', 3, 470, 42000, 'airliner', 'b721'],
+  ['B722', 'Boeing', '727-200', 'M', 'jet', 3, 470, 42000, 'airliner', 'b722'],
+  ['B731', 'Boeing', '737-100', 'M', 'jet', 2, 420, 37000, 'airliner', 'b731'],
+  ['B732', 'Boeing', '737-200', 'M', 'jet', 2, 420, 37000, 'airliner', 'b732'],
+  ['B733', 'Boeing', '737-300', 'M', 'jet', 2, 430, 37000, 'airliner', 'b733'],
+  ['B734', 'Boeing', '737-400', 'M', 'jet', 2, 430, 37000, 'airliner', 'b734'],
+  ['B735', 'Boeing', '737-500', 'M', 'jet', 2, 430, 37000, 'airliner', 'b735'],
+  ['B736', 'Boeing', '737-600', 'M', 'jet', 2, 450, 41000, 'airliner', 'b736'],
+  ['B737', 'Boeing', '737-700', 'M', 'jet', 2, 450, 41000, 'airliner', 'b737'],
+  ['B738', 'Boeing', '737-800', 'M', 'jet', 2, 450, 41000, 'airliner', 'b738'],
+  ['B739', 'Boeing', '737-900', 'M', 'jet', 2, 450, 41000, 'airliner', 'b739'],
+  ['B741', 'Boeing', '747-100', 'H', 'jet', 4, 490, 45000, 'airliner', 'b741'],
+  ['B742', 'Boeing', '747-200', 'H', 'jet', 4, 490, 45000, 'airliner', 'b741'],
+  ['B743', 'Boeing', '747-300', 'H', 'jet', 4, 490, 45000, 'airliner', 'b741'],
+  ['B744', 'Boeing', '747-400', 'H', 'jet', 4, 490, 45100, 'airliner', 'b744'],
+  ['B748', 'Boeing', '747-8', 'H', 'jet', 4, 495, 43100, 'airliner', 'b748'],
+  ['B74S', 'Boeing', '747SP', 'H', 'jet', 4, 490, 45100, 'airliner', 'b74s'],
+  ['B752', 'Boeing', '757-200', 'M', 'jet', 2, 460, 42000, 'airliner', 'b752'],
+  ['B753', 'Boeing', '757-300', 'M', 'jet', 2, 460, 42000, 'airliner', 'b753'],
+  ['B762', 'Boeing', '767-200', 'H', 'jet', 2, 460, 43100, 'airliner', 'b762'],
+  ['B763', 'Boeing', '767-300', 'H', 'jet', 2, 460, 43100, 'airliner', 'b763'],
+  ['B764', 'Boeing', '767-400', 'H', 'jet', 2, 460, 43100, 'airliner', 'b764'],
+  ['B772', 'Boeing', '777-200', 'H', 'jet', 2, 490, 43100, 'airliner', 'b772'],
+  ['B773', 'Boeing', '777-300', 'H', 'jet', 2, 490, 43100, 'airliner', 'b773'],
+  ['B778', 'Boeing', '777-8', 'H', 'jet', 2, 490, 43100, 'airliner', 'b77w'],
+  ['B779', 'Boeing', '777-9', 'H', 'jet', 2, 490, 43100, 'airliner', 'b77w'],
+  ['B77L', 'Boeing', '777-200LR/777F', 'H', 'jet', 2, 490, 43100, 'airliner', 'b77l'],
+  ['B77W', 'Boeing', '777-300ER', 'H', 'jet', 2, 490, 43100, 'airliner', 'b77w'],
+  ['B788', 'Boeing', '787-8 Dreamliner', 'H', 'jet', 2, 488, 43100, 'airliner', 'b788'],
+  ['B789', 'Boeing', '787-9 Dreamliner', 'H', 'jet', 2, 488, 43100, 'airliner', 'b789'],
+  ['B78X', 'Boeing', '787-10 Dreamliner', 'H', 'jet', 2, 488, 41100, 'airliner', 'b78x'],
+  ['BA11', 'BAC', 'One-Eleven', 'M', 'jet', 2, 400, 35000, 'airliner', 'ba11'],
+  ['BALL', 'Generic', 'Hot air balloon', 'L', 'none', 0, 10, 10000, 'general-aviation', 'ball'],
+  ['BCS1', 'Airbus', 'A220-100', 'M', 'jet', 2, 450, 41000, 'airliner', 'bcs1'],
+  ['BCS3', 'Airbus', 'A220-300', 'M', 'jet', 2, 450, 41000, 'airliner', 'bcs3'],
+  ['BE20', 'Beechcraft', 'King Air 200', 'L', 'turboprop', 2, 280, 35000, 'business', 'be20'],
+  ['BE35', 'Beechcraft', 'Bonanza 35', 'L', 'piston', 1, 170, 18500, 'general-aviation', 'be35'],
+  ['BE36', 'Beechcraft', 'Bonanza 36', 'L', 'piston', 1, 170, 18500, 'general-aviation', 'be36'],
+  ['BE58', 'Beechcraft', 'Baron 58', 'L', 'piston', 2, 200, 20000, 'general-aviation', 'be58'],
+  ['BE60', 'Beechcraft', 'Duke', 'L', 'piston', 2, 220, 30000, 'general-aviation', 'be60'],
+  ['BE9L', 'Beechcraft', 'King Air 90', 'L', 'turboprop', 2, 240, 30000, 'business', 'be9l'],
+  ['BLCF', 'Boeing', '747-400 LCF Dreamlifter', 'H', 'jet', 4, 470, 43000, 'cargo', 'blcf'],
+  ['BN2P', 'Britten-Norman', 'BN-2 Islander', 'L', 'piston', 2, 140, 14000, 'general-aviation', 'bn2p'],
+  ['C130', 'Lockheed', 'C-130 Hercules', 'M', 'turboprop', 4, 290, 33000, 'military', 'c130'],
+  ['C152', 'Cessna', '152', 'L', 'piston', 1, 105, 14700, 'general-aviation', 'c152'],
+  ['C160', 'Transall', 'C-160', 'M', 'turboprop', 2, 270, 27000, 'military', 'c160'],
+  ['C17', 'Boeing', 'C-17 Globemaster III', 'H', 'jet', 4, 450, 45000, 'military', 'c17'],
+  ['C172', 'Cessna', '172 Skyhawk', 'L', 'piston', 1, 120, 14000, 'general-aviation', 'c172'],
+  ['C2', 'Grumman', 'C-2 Greyhound', 'M', 'turboprop', 2, 250, 30000, 'military', 'c2'],
+  ['C206', 'Cessna', '206 Stationair', 'L', 'piston', 1, 150, 15700, 'general-aviation', 'c206'],
+  ['C208', 'Cessna', '208 Caravan', 'L', 'turboprop', 1, 185, 25000, 'general-aviation', 'c208'],
+  ['C25A', 'Cessna', 'Citation CJ2', 'L', 'jet', 2, 410, 45000, 'business', 'c25b'],
+  ['C25B', 'Cessna', 'Citation CJ3', 'L', 'jet', 2, 415, 45000, 'business', 'c25b'],
+  ['C25C', 'Cessna', 'Citation CJ4', 'L', 'jet', 2, 450, 45000, 'business', 'c25c'],
+  ['C30J', 'Lockheed Martin', 'C-130J Super Hercules', 'M', 'turboprop', 4, 320, 28000, 'military', 'c130'],
+  ['C310', 'Cessna', '310', 'L', 'piston', 2, 190, 19500, 'general-aviation', 'c310'],
+  ['C402', 'Cessna', '402', 'L', 'piston', 2, 200, 26000, 'general-aviation', 'c402'],
+  ['C414', 'Cessna', '414 Chancellor', 'L', 'piston', 2, 210, 30000, 'general-aviation', 'c414'],
+  ['C510', 'Cessna', 'Citation Mustang', 'L', 'jet', 2, 340, 41000, 'business', 'c510'],
+  ['C525', 'Cessna', 'CitationJet CJ1', 'L', 'jet', 2, 380, 41000, 'business', 'c525'],
+  ['C56X', 'Cessna', 'Citation Excel', 'M', 'jet', 2, 430, 45000, 'business', 'c68a'],
+  ['C5M', 'Lockheed', 'C-5M Super Galaxy', 'H', 'jet', 4, 450, 36000, 'military', 'c5m'],
+  ['C680', 'Cessna', 'Citation Sovereign', 'M', 'jet', 2, 450, 47000, 'business', 'c68a'],
+  ['C68A', 'Cessna', 'Citation Latitude', 'M', 'jet', 2, 446, 45000, 'business', 'c68a'],
+  ['C700', 'Cessna', 'Citation Longitude', 'M', 'jet', 2, 476, 45000, 'business', 'c700'],
+  ['C750', 'Cessna', 'Citation X', 'M', 'jet', 2, 500, 51000, 'business', 'c750'],
+  ['C919', 'COMAC', 'C919', 'M', 'jet', 2, 450, 39800, 'airliner', 'c919'],
+  ['CL2T', 'Bombardier', 'CL-415', 'M', 'turboprop', 2, 180, 10000, 'general-aviation', 'cl2t'],
+  ['CL30', 'Bombardier', 'Challenger 300', 'M', 'jet', 2, 460, 45000, 'business', 'cl30'],
+  ['CL35', 'Bombardier', 'Challenger 350', 'M', 'jet', 2, 460, 45000, 'business', 'cl30'],
+  ['CL60', 'Bombardier', 'Challenger 600', 'M', 'jet', 2, 459, 41000, 'business', 'cl60'],
+  ['CONC', 'Aerospatiale/BAC', 'Concorde', 'H', 'jet', 4, 1170, 60000, 'airliner', 'conc'],
+  ['CP10', 'Mudry', 'CAP 10', 'L', 'piston', 1, 140, 15000, 'general-aviation', 'cp10'],
+  ['CRJ1', 'Bombardier', 'CRJ100', 'M', 'jet', 2, 420, 41000, 'regional', 'crj2'],
+  ['CRJ2', 'Bombardier', 'CRJ200', 'M', 'jet', 2, 420, 41000, 'regional', 'crj2'],
+  ['CRJ7', 'Bombardier', 'CRJ700', 'M', 'jet', 2, 450, 41000, 'regional', 'crj7'],
+  ['CRJ9', 'Bombardier', 'CRJ900', 'M', 'jet', 2, 450, 41000, 'regional', 'crj9'],
+  ['CRJX', 'Bombardier', 'CRJ1000', 'M', 'jet', 2, 450, 41000, 'regional', 'crjx'],
+  ['DA40', 'Diamond', 'DA40 Diamond Star', 'L', 'piston', 1, 140, 16400, 'general-aviation', 'da40'],
+  ['DA42', 'Diamond', 'DA42 Twin Star', 'L', 'piston', 2, 160, 18000, 'general-aviation', 'da42'],
+  ['DA62', 'Diamond', 'DA62', 'L', 'piston', 2, 180, 20000, 'general-aviation', 'da62'],
+  ['DC10', 'McDonnell Douglas', 'DC-10', 'H', 'jet', 3, 480, 42000, 'airliner', 'dc10'],
+  ['DC3', 'Douglas', 'DC-3', 'M', 'piston', 2, 150, 23000, 'airliner', 'dc3'],
+  ['DC6', 'Douglas', 'DC-6', 'M', 'piston', 4, 270, 25000, 'airliner', 'dc6'],
+  ['DC86', 'McDonnell Douglas', 'DC-8-60', 'H', 'jet', 4, 480, 41000, 'airliner', 'dc86'],
+  ['DC87', 'McDonnell Douglas', 'DC-8-70', 'H', 'jet', 4, 480, 41000, 'airliner', 'dc86'],
+  ['DH88', 'de Havilland', 'DH.88 Comet', 'L', 'piston', 2, 200, 19000, 'general-aviation', 'dh88'],
+  ['DH8A', 'De Havilland Canada', 'Dash 8-100', 'M', 'turboprop', 2, 270, 25000, 'regional', 'dh8a'],
+  ['DH8B', 'De Havilland Canada', 'Dash 8-200', 'M', 'turboprop', 2, 270, 25000, 'regional', 'dh8a'],
+  ['DH8C', 'De Havilland Canada', 'Dash 8-300', 'M', 'turboprop', 2, 280, 25000, 'regional', 'dh8c'],
+  ['DH8D', 'De Havilland Canada', 'Dash 8-400', 'M', 'turboprop', 2, 360, 27000, 'regional', 'dh8d'],
+  ['DHC2', 'De Havilland Canada', 'DHC-2 Beaver', 'L', 'piston', 1, 125, 18000, 'general-aviation', 'dhc2'],
+  ['DHC6', 'De Havilland Canada', 'DHC-6 Twin Otter', 'L', 'turboprop', 2, 170, 25000, 'regional', 'dhc6'],
+  ['DHC7', 'De Havilland Canada', 'Dash 7', 'M', 'turboprop', 4, 230, 21000, 'regional', 'dhc7'],
+  ['DIMO', 'Diamond', 'HK36 Super Dimona', 'L', 'piston', 1, 110, 16000, 'general-aviation', 'dimo'],
+  ['DR40', 'Robin', 'DR400', 'L', 'piston', 1, 130, 15000, 'general-aviation', 'dr40'],
+  ['DV20', 'Diamond', 'DV20 Katana', 'L', 'piston', 1, 110, 13000, 'general-aviation', 'dv20'],
+  ['E135', 'Embraer', 'ERJ-135', 'M', 'jet', 2, 430, 37000, 'regional', 'e135'],
+  ['E145', 'Embraer', 'ERJ-145', 'M', 'jet', 2, 430, 37000, 'regional', 'e145'],
+  ['E170', 'Embraer', 'E170', 'M', 'jet', 2, 450, 41000, 'regional', 'e170'],
+  ['E190', 'Embraer', 'E190', 'M', 'jet', 2, 450, 41000, 'regional', 'e190'],
+  ['E195', 'Embraer', 'E195', 'M', 'jet', 2, 450, 41000, 'regional', 'e195'],
+  ['E2', 'Northrop Grumman', 'E-2 Hawkeye', 'M', 'turboprop', 2, 300, 37000, 'military', 'e2'],
+  ['E290', 'Embraer', 'E190-E2', 'M', 'jet', 2, 460, 41000, 'regional', 'e290'],
+  ['E295', 'Embraer', 'E195-E2', 'M', 'jet', 2, 460, 41000, 'regional', 'e295'],
+  ['E35L', 'Embraer', 'Legacy 600/650', 'M', 'jet', 2, 450, 41000, 'business', 'e135'],
+  ['E3CF', 'Boeing', 'E-3 Sentry', 'H', 'jet', 4, 420, 29000, 'military', 'e3cf'],
+  ['E50P', 'Embraer', 'Phenom 100', 'L', 'jet', 2, 390, 41000, 'business', 'e50p'],
+  ['E55P', 'Embraer', 'Phenom 300', 'L', 'jet', 2, 450, 45000, 'business', 'e55p'],
+  ['E75L', 'Embraer', 'E175 (long wing)', 'M', 'jet', 2, 450, 41000, 'regional', 'e175'],
+  ['E75S', 'Embraer', 'E175 (short wing)', 'M', 'jet', 2, 450, 41000, 'regional', 'e75s'],
+  ['EC45', 'Airbus Helicopters', 'H145', 'L', 'turboshaft', 2, 130, 18000, 'helicopter', 'ec45'],
+  ['EH10', 'AgustaWestland', 'AW101 Merlin', 'M', 'turboshaft', 3, 150, 15000, 'helicopter', 'eh10'],
+  ['EPIC', 'Epic', 'E1000', 'L', 'turboprop', 1, 325, 34000, 'general-aviation', 'epic'],
+  ['EUFI', 'Eurofighter', 'Typhoon', 'M', 'jet', 2, 500, 55000, 'military', 'eufi'],
+  ['F100', 'Fokker', '100', 'M', 'jet', 2, 410, 35000, 'regional', 'f100'],
+  ['F104', 'Lockheed', 'F-104 Starfighter', 'M', 'jet', 1, 510, 50000, 'military', 'f104'],
+  ['F117', 'Lockheed', 'F-117 Nighthawk', 'M', 'jet', 2, 480, 45000, 'military', 'f117'],
+  ['F14', 'Grumman', 'F-14 Tomcat', 'M', 'jet', 2, 500, 50000, 'military', 'f14'],
+  ['F15', 'McDonnell Douglas', 'F-15 Eagle', 'M', 'jet', 2, 500, 65000, 'military', 'f15'],
+  ['F16', 'General Dynamics', 'F-16 Fighting Falcon', 'M', 'jet', 1, 500, 50000, 'military', 'f16'],
+  ['F18', 'Boeing', 'F/A-18 Hornet', 'M', 'jet', 2, 500, 50000, 'military', 'f18'],
+  ['F22', 'Lockheed Martin', 'F-22 Raptor', 'M', 'jet', 2, 500, 65000, 'military', 'f22'],
+  ['F27', 'Fokker', 'F27 Friendship', 'M', 'turboprop', 2, 250, 25000, 'regional', 'f27'],
+  ['F28', 'Fokker', 'F28 Fellowship', 'M', 'jet', 2, 400, 35000, 'regional', 'f28'],
+  ['F2TH', 'Dassault', 'Falcon 2000', 'M', 'jet', 2, 470, 47000, 'business', 'f2th'],
+  ['F35', 'Lockheed Martin', 'F-35 Lightning II', 'M', 'jet', 1, 500, 50000, 'military', 'f35'],
+  ['F4', 'McDonnell Douglas', 'F-4 Phantom II', 'M', 'jet', 2, 500, 60000, 'military', 'f4'],
+  ['F70', 'Fokker', '70', 'M', 'jet', 2, 400, 35000, 'regional', 'f70'],
+  ['F900', 'Dassault', 'Falcon 900', 'M', 'jet', 3, 470, 51000, 'business', 'f900'],
+  ['FA10', 'Dassault', 'Falcon 10', 'M', 'jet', 2, 430, 45000, 'business', 'fa10'],
+  ['FA20', 'Dassault', 'Falcon 20', 'M', 'jet', 2, 430, 42000, 'business', 'fa20'],
+  ['FA50', 'Dassault', 'Falcon 50', 'M', 'jet', 3, 450, 49000, 'business', 'fa50'],
+  ['FA6X', 'Dassault', 'Falcon 6X', 'M', 'jet', 2, 480, 51000, 'business', 'fa6x'],
+  ['FA7X', 'Dassault', 'Falcon 7X', 'M', 'jet', 3, 480, 51000, 'business', 'fa7x'],
+  ['FA8X', 'Dassault', 'Falcon 8X', 'M', 'jet', 3, 480, 51000, 'business', 'fa8x'],
+  ['G109', 'Grob', 'G 109', 'L', 'piston', 1, 100, 16000, 'general-aviation', 'g109'],
+  ['G2CA', 'Guimbal', 'Cabri G2', 'L', 'piston', 1, 90, 13000, 'helicopter', 'g2ca'],
+  ['G91', 'Fiat', 'G.91', 'M', 'jet', 1, 450, 40000, 'military', 'g91'],
+  ['GL5T', 'Bombardier', 'Global 5000', 'M', 'jet', 2, 488, 51000, 'business', 'gl5t'],
+  ['GL7T', 'Bombardier', 'Global 7500', 'M', 'jet', 2, 488, 51000, 'business', 'gl7t'],
+  ['GLEX', 'Bombardier', 'Global Express', 'M', 'jet', 2, 488, 51000, 'business', 'glex'],
+  ['GLF4', 'Gulfstream', 'G-IV', 'M', 'jet', 2, 459, 45000, 'business', 'glf5'],
+  ['GLF5', 'Gulfstream', 'G-V', 'M', 'jet', 2, 488, 51000, 'business', 'glf5'],
+  ['GLF6', 'Gulfstream', 'G650', 'M', 'jet', 2, 488, 51000, 'business', 'glf6'],
+  ['GLID', 'Generic', 'Glider', 'L', 'none', 0, 60, 15000, 'general-aviation', 'glid'],
+  ['H160', 'Airbus Helicopters', 'H160', 'L', 'turboshaft', 2, 150, 15000, 'helicopter', 'h160'],
+  ['H47', 'Boeing', 'CH-47 Chinook', 'M', 'turboshaft', 2, 150, 20000, 'helicopter', 'h47'],
+  ['H60', 'Sikorsky', 'UH-60 Black Hawk', 'M', 'turboshaft', 2, 150, 19000, 'helicopter', 'h60'],
+  ['H64', 'Boeing', 'AH-64 Apache', 'M', 'turboshaft', 2, 150, 20000, 'helicopter', 'h64'],
+  ['HAWK', 'BAE Systems', 'Hawk', 'M', 'jet', 1, 450, 44500, 'military', 'hawk'],
+  ['HDJT', 'Honda', 'HA-420 HondaJet', 'L', 'jet', 2, 420, 43000, 'business', 'hdjt'],
+  ['HUNT', 'Hawker', 'Hunter', 'M', 'jet', 1, 480, 50000, 'military', 'hunt'],
+  ['HUSK', 'Aviat', 'Husky', 'L', 'piston', 1, 120, 20000, 'general-aviation', 'husk'],
+  ['IL76', 'Ilyushin', 'Il-76', 'H', 'jet', 4, 430, 42000, 'cargo', 'il76'],
+  ['IL96', 'Ilyushin', 'Il-96', 'H', 'jet', 4, 470, 43000, 'airliner', 'il96'],
+  ['J328', 'Fairchild Dornier', '328JET', 'M', 'jet', 2, 400, 35000, 'regional', 'j328'],
+  ['JS41', 'British Aerospace', 'Jetstream 41', 'M', 'turboprop', 2, 260, 26000, 'regional', 'js41'],
+  ['K35E', 'Boeing', 'KC-135E Stratotanker', 'H', 'jet', 4, 460, 50000, 'military', 'k35e'],
+  ['K35R', 'Boeing', 'KC-135R Stratotanker', 'H', 'jet', 4, 460, 50000, 'military', 'k35e'],
+  ['KODI', 'Quest', 'Kodiak 100', 'L', 'turboprop', 1, 170, 25000, 'general-aviation', 'kodi'],
+  ['L101', 'Lockheed', 'L-1011 TriStar', 'H', 'jet', 3, 480, 42000, 'airliner', 'l101'],
+  ['L39', 'Aero', 'L-39 Albatros', 'L', 'jet', 1, 400, 36000, 'military', 'l39'],
+  ['L410', 'Let', 'L-410 Turbolet', 'L', 'turboprop', 2, 200, 20000, 'regional', 'l410'],
+  ['LANC', 'Avro', 'Lancaster', 'M', 'piston', 4, 200, 21000, 'military', 'lanc'],
+  ['LJ35', 'Learjet', '35', 'M', 'jet', 2, 440, 45000, 'business', 'lj35'],
+  ['LJ45', 'Learjet', '45', 'M', 'jet', 2, 450, 51000, 'business', 'lj35'],
+  ['LJ75', 'Learjet', '75', 'M', 'jet', 2, 450, 51000, 'business', 'lj35'],
+  ['M20P', 'Mooney', 'M20', 'L', 'piston', 1, 160, 18000, 'general-aviation', 'm20p'],
+  ['MD11', 'McDonnell Douglas', 'MD-11', 'H', 'jet', 3, 480, 43000, 'airliner', 'md11'],
+  ['MD81', 'McDonnell Douglas', 'MD-81', 'M', 'jet', 2, 440, 37000, 'airliner', 'md80'],
+  ['MD82', 'McDonnell Douglas', 'MD-82', 'M', 'jet', 2, 440, 37000, 'airliner', 'md80'],
+  ['MD83', 'McDonnell Douglas', 'MD-83', 'M', 'jet', 2, 440, 37000, 'airliner', 'md80'],
+  ['MD87', 'McDonnell Douglas', 'MD-87', 'M', 'jet', 2, 440, 37000, 'airliner', 'md80'],
+  ['MD88', 'McDonnell Douglas', 'MD-88', 'M', 'jet', 2, 440, 37000, 'airliner', 'md80'],
+  ['MD90', 'McDonnell Douglas', 'MD-90', 'M', 'jet', 2, 440, 37000, 'airliner', 'md80'],
+  ['ME08', 'Messerschmitt', 'Bf 108 Taifun', 'L', 'piston', 1, 150, 20000, 'general-aviation', 'me08'],
+  ['ME09', 'Messerschmitt', 'Bf 109', 'L', 'piston', 1, 300, 36000, 'military', 'me09'],
+  ['ME62', 'Messerschmitt', 'Me 262', 'L', 'jet', 2, 450, 37500, 'military', 'me62'],
+  ['MIR2', 'Dassault', 'Mirage 2000', 'M', 'jet', 1, 500, 59000, 'military', 'mir2'],
+  ['P180', 'Piaggio', 'P.180 Avanti', 'L', 'turboprop', 2, 360, 41000, 'business', 'p180'],
+  ['P212', 'Tecnam', 'P2012 Traveller', 'L', 'piston', 2, 190, 15000, 'general-aviation', 'p212'],
+  ['P28A', 'Piper', 'PA-28 Cherokee/Warrior', 'L', 'piston', 1, 120, 14000, 'general-aviation', 'p28x'],
+  ['P28B', 'Piper', 'PA-28-201T Turbo Dakota', 'L', 'piston', 1, 150, 20000, 'general-aviation', 'p28x'],
+  ['P28R', 'Piper', 'PA-28R Arrow', 'L', 'piston', 1, 140, 16000, 'general-aviation', 'p28x'],
+  ['P28X', 'Piper', 'PA-28RT Arrow IV', 'L', 'piston', 1, 140, 16000, 'general-aviation', 'p28x'],
+  ['P46T', 'Piper', 'PA-46 Meridian', 'L', 'turboprop', 1, 260, 30000, 'general-aviation', 'p46t'],
+  ['P51', 'North American', 'P-51 Mustang', 'L', 'piston', 1, 300, 41900, 'military', 'p51'],
+  ['PA18', 'Piper', 'PA-18 Super Cub', 'L', 'piston', 1, 100, 19000, 'general-aviation', 'pa18'],
+  ['PA24', 'Piper', 'PA-24 Comanche', 'L', 'piston', 1, 160, 20000, 'general-aviation', 'pa24'],
+  ['PA34', 'Piper', 'PA-34 Seneca', 'L', 'piston', 2, 180, 25000, 'general-aviation', 'pa34'],
+  ['PA38', 'Piper', 'PA-38 Tomahawk', 'L', 'piston', 1, 100, 13000, 'general-aviation', 'pa38'],
+  ['PA44', 'Piper', 'PA-44 Seminole', 'L', 'piston', 2, 160, 17000, 'general-aviation', 'pa44'],
+  ['PC12', 'Pilatus', 'PC-12', 'L', 'turboprop', 1, 280, 30000, 'general-aviation', 'pc12'],
+  ['PC21', 'Pilatus', 'PC-21', 'L', 'turboprop', 1, 320, 38000, 'military', 'pc21'],
+  ['PC24', 'Pilatus', 'PC-24', 'M', 'jet', 2, 440, 45000, 'business', 'pc24'],
+  ['PC6T', 'Pilatus', 'PC-6 Turbo Porter', 'L', 'turboprop', 1, 120, 25000, 'general-aviation', 'pc6t'],
+  ['R22', 'Robinson', 'R22', 'L', 'piston', 1, 95, 14000, 'helicopter', 'r22'],
+  ['R44', 'Robinson', 'R44', 'L', 'piston', 1, 110, 14000, 'helicopter', 'r44'],
+  ['R66', 'Robinson', 'R66', 'L', 'turboshaft', 1, 120, 14000, 'helicopter', 'r66'],
+  ['RFAL', 'Dassault', 'Rafale', 'M', 'jet', 2, 500, 50000, 'military', 'rfal'],
+  ['RJ1H', 'Avro', 'RJ100', 'M', 'jet', 4, 400, 35000, 'regional', 'b463'],
+  ['RJ70', 'Avro', 'RJ70', 'M', 'jet', 4, 400, 35000, 'regional', 'b461'],
+  ['RJ85', 'Avro', 'RJ85', 'M', 'jet', 4, 400, 35000, 'regional', 'b462'],
+  ['RV10', 'Van\'s', 'RV-10', 'L', 'piston', 1, 170, 20000, 'general-aviation', 'rv10'],
+  ['S92', 'Sikorsky', 'S-92', 'M', 'turboshaft', 2, 150, 14000, 'helicopter', 's92'],
+  ['SB20', 'Saab', '2000', 'M', 'turboprop', 2, 350, 31000, 'regional', 'sb20'],
+  ['SB39', 'Saab', 'JAS 39 Gripen', 'M', 'jet', 1, 500, 50000, 'military', 'sb39'],
+  ['SF34', 'Saab', '340', 'M', 'turboprop', 2, 250, 25000, 'regional', 'sf34'],
+  ['SF50', 'Cirrus', 'SF50 Vision Jet', 'L', 'jet', 1, 300, 31000, 'business', 'sf50'],
+  ['SH36', 'Shorts', '360', 'M', 'turboprop', 2, 210, 20000, 'regional', 'sh36'],
+  ['SHIP', 'Generic', 'Airship', 'L', 'piston', 2, 40, 10000, 'general-aviation', 'ship'],
+  ['SIRA', 'Tecnam', 'P2002 Sierra', 'L', 'piston', 1, 110, 12000, 'general-aviation', 'sira'],
+  ['SPIT', 'Supermarine', 'Spitfire', 'L', 'piston', 1, 280, 36000, 'military', 'spit'],
+  ['SR22', 'Cirrus', 'SR22', 'L', 'piston', 1, 180, 17500, 'general-aviation', 'sr22'],
+  ['SR71', 'Lockheed', 'SR-71 Blackbird', 'M', 'jet', 2, 1800, 85000, 'military', 'sr71'],
+  ['STAR', 'Beechcraft', 'Starship', 'L', 'turboprop', 2, 330, 41000, 'business', 'star'],
+  ['SU27', 'Sukhoi', 'Su-27', 'M', 'jet', 2, 500, 62000, 'military', 'su27'],
+  ['SU95', 'Sukhoi', 'Superjet 100', 'M', 'jet', 2, 450, 40000, 'regional', 'su95'],
+  ['T134', 'Tupolev', 'Tu-134', 'M', 'jet', 2, 430, 39000, 'airliner', 't134'],
+  ['T144', 'Tupolev', 'Tu-144', 'H', 'jet', 4, 1150, 60000, 'airliner', 't144'],
+  ['T154', 'Tupolev', 'Tu-154', 'M', 'jet', 3, 470, 39000, 'airliner', 't154'],
+  ['TBM7', 'Daher', 'TBM 700', 'L', 'turboprop', 1, 290, 31000, 'general-aviation', 'tbm7'],
+  ['TBM8', 'Daher', 'TBM 850', 'L', 'turboprop', 1, 310, 31000, 'general-aviation', 'tbm8'],
+  ['TBM9', 'Daher', 'TBM 900', 'L', 'turboprop', 1, 320, 31000, 'general-aviation', 'tbm9'],
+  ['TEX2', 'Beechcraft', 'T-6 Texan II', 'L', 'turboprop', 1, 300, 31000, 'military', 'tex2'],
+  ['TL20', 'TL-Ultralight', 'TL-2000 Sting', 'L', 'piston', 1, 120, 12000, 'general-aviation', 'tl20'],
+  ['TOR', 'Panavia', 'Tornado', 'M', 'jet', 2, 500, 50000, 'military', 'tor'],
+  ['TRIS', 'Britten-Norman', 'Trislander', 'L', 'piston', 3, 150, 13000, 'regional', 'tris'],
+  ['TWEN', 'Tecnam', 'P2006T', 'L', 'piston', 2, 145, 15000, 'general-aviation', 'twen'],
+  ['U2', 'Lockheed', 'U-2', 'M', 'jet', 1, 410, 70000, 'military', 'u2'],
+  ['V10', 'North American', 'OV-10 Bronco', 'L', 'turboprop', 2, 220, 26000, 'military', 'v10'],
+  ['V22', 'Bell Boeing', 'V-22 Osprey', 'M', 'turboprop', 2, 240, 25000, 'military', 'v22'],
+  ['VAMP', 'de Havilland', 'Vampire', 'L', 'jet', 1, 400, 40000, 'military', 'vamp'],
+  ['VC10', 'Vickers', 'VC10', 'H', 'jet', 4, 480, 43000, 'airliner', 'vc10'],
+  ['VISC', 'Vickers', 'Viscount', 'M', 'turboprop', 4, 270, 25000, 'airliner', 'visc'],
+  ['VULC', 'Avro', 'Vulcan', 'H', 'jet', 4, 540, 55000, 'military', 'vulc'],
+  ['YK40', 'Yakovlev', 'Yak-40', 'M', 'jet', 3, 300, 26000, 'regional', 'yk40'],
+];
+
+// Designator prefixes for types not in the table, most specific first
+const FAMILY_ICONS: [string, string][] = [
+  ['A31', 'a319'],
+  ['A32', 'a320'],
+  ['A33', 'a333'],
+  ['A34', 'a343'],
+  ['A35', 'a359'],
+  ['A38', 'a388'],
+  ['B73', 'b738'],
+  ['B74', 'b744'],
+  ['B75', 'b752'],
+  ['B76', 'b763'],
+  ['B77', 'b77w'],
+  ['B78', 'b789'],
+  ['CRJ', 'crj9'],
+  ['DH8', 'dh8d'],
+  ['GLF', 'glf6'],
+  ['GL', 'glex'],
+  ['MD', 'md80'],
+  ['LJ', 'lj35'],
+  ['FA', 'fa7x'],
+  ['E1', 'e190'],
+  ['E2', 'e290'],
+  ['AT', 'at7x'],
+  ['C5', 'c525'],
+  ['C6', 'c68a'],
+  ['C7', 'c750'],
+  ['C1', 'c172'],
+  ['C2', 'c208'],
+  ['P28', 'p28x'],
+  ['PA', 'pa34'],
+  ['BE', 'be58'],
+  ['TBM', 'tbm9']
+];
+
+// Last resort when nothing about the type is known
+const WAKE_ICONS: Record<string, string> = {
+  L: 'c172',
+  M: 'a320',
+  H: 'b772',
+  J: 'a388'
+};
+
+const DEFAULT_ICON = 'a20n';
+
+let aircraftTypes: Map<string, AircraftTypeInfo> | null = null;
+
+function getAircraftTypes(): Map<string, AircraftTypeInfo> {
+  if (!aircraftTypes) {
+    aircraftTypes = new Map(
+      AIRCRAFT_ROWS.map(([icao, manufacturer, model, wtc, engineType, engineCount, cruiseSpeed, ceiling, category, icon]) => [
+        icao,
+        { icao, manufacturer, model, wtc, engineType, engineCount, cruiseSpeed, ceiling, category, icon }
+      ])
+    );
+  }
+  return aircraftTypes;
+}
+
+function cleanDesignator(designator: string): string {
+  return designator.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function getAircraftType(designator: string | null | undefined): AircraftTypeInfo | null {
+  if (!designator) return null;
+  return getAircraftTypes().get(cleanDesignator(designator)) ?? null;
+}
+
+// "Airbus A320neo", or null for unknown types
+export function getAircraftLabel(designator: string | null | undefined): string | null {
+  const type = getAircraftType(designator);
+  return type ? `${type.manufacturer} ${type.model}` : null;
+}
+
+// Icon URL for any filed type: exact match, then family, then wake category
+export function getAircraftIcon(designator: string | null | undefined, wakeCategory?: string | null): string {
+  const type = getAircraftType(designator);
+  if (type) {
+    return `/aircraft/${type.icon}.svg`;
+  }
+
+  const clean = designator ? cleanDesignator(designator) : '';
+  const family = clean ? FAMILY_ICONS.find(([prefix]) => clean.startsWith(prefix)) : undefined;
+  if (family) {
+    return `/aircraft/${family[1]}.svg`;
+  }
+
+  const byWake = wakeCategory ? WAKE_ICONS[wakeCategory.toUpperCase()] : undefined;
+  return `/aircraft/${byWake || DEFAULT_ICON}.svg`;
+}
@@ -0,0 +1,89 @@
+import { AirportAtcStatus, AirportService, AirportServiceStatus, AtcPosition, AtisData, CoveringStation, VatsimATIS, VatsimController } from '../types/vatsim';
+import { VatspyAirportCode } from './vatspy-parser';
+import { calculateDistance } from './geo';
+
+// Which positions are staffed at an airport and who actually provides each
+// service. Under top-down control an empty position is worked by the next one
+// up: delivery by ground, ground by tower, tower by approach, approach by the centre.
+
+const TOP_DOWN_ORDER: AirportService[] = ['DEL', 'GND', 'TWR', 'APP'];
+
+const SERVICE_SUFFIXES: Record<string, AirportService> = {
+  DEL: 'DEL',
+  GND: 'GND',
+  TWR: 'TWR',
+  APP: 'APP',
+  DEP: 'APP',
+  ATIS: 'ATIS'
+};
+
+// Approach units often log on under a TRACON or city code filed against another airport
+const APPROACH_RANGE_NM = 40;
+
+export function serviceOf(callsign: string): AirportService | null {
+  const parts = callsign.toUpperCase().split('_');
+  return SERVICE_SUFFIXES[parts[parts.length - 1]] ?? null;
+}
+
+const toPosition = (controller: VatsimController | VatsimATIS): AtcPosition => ({
+  callsign: controller.callsign,
+  frequency: controller.frequency,
+  controllerName: controller.name,
+  atisCode: 'atis_code' in controller ? controller.atis_code : null
+});
+
+export function resolveAirportAtc(
+  airport: { icao: string; latitude?: number; longitude?: number },
+  codes: Map<string, VatspyAirportCode>,
+  controllers: VatsimController[],
+  atis: VatsimATIS[],
+  centre: CoveringStation | null
+): AirportAtcStatus {
+  const icao = airport.icao.toUpperCase();
+
+  const belongsHere = (callsign: string, service: AirportService): boolean => {
+    const owner = codes.get(callsign.split('_')[0].toUpperCase());
+    if (!owner) return false;
+    if (owner.icao === icao) return true;
+    return service === 'APP' && airport.latitude !== undefined && airport.longitude !== undefined &&
+      calculateDistance(airport.latitude, airport.longitude, owner.latitude, owner.longitude) <= APPROACH_RANGE_NM;
+  };
+
+  const staffed = new Map<AirportService, AtcPosition[]>();
+  for (const station of [...controllers, ...atis]) {
+    const service = serviceOf(station.callsign);
+    if (!service || !belongsHere(station.callsign, service)) continue;
+    staffed.set(service, (staffed.get(service) ?? []).concat(toPosition(station)));
+  }
+
+  const atisStation = atis.find(station => serviceOf(station.callsign) === 'ATIS' && belongsHere(station.callsign, 'ATIS'));
+  const atisBroadcast: AtisData | null = atisStation
+    ? {
+      icao,
+      atis: atisStation.text_atis ? atisStation.text_atis.join(' ') : 'ATIS available but no text provided',
+      callsign: atisStation.callsign,
+      frequency: atisStation.frequency,
+      time: atisStation.last_updated
+    }
+    : null;
+
+  const centrePosition: AtcPosition | null = centre
+    ? { callsign: centre.callsign, frequency: centre.frequency, controllerName: centre.controllerName, atisCode: null }
+    : null;
+
+  const services: AirportServiceStatus[] = TOP_DOWN_ORDER.map((service, index) => {
+    const stations = staffed.get(service) ?? [];
+    let providedBy: AtcPosition | null = stations[0] ?? null;
+    for (const higher of TOP_DOWN_ORDER.slice(index + 1)) {
+      if (providedBy) break;
+      providedBy = staffed.get(higher)?.[0] ?? null;
+    }
+    providedBy = providedBy ?? centrePosition;
+    return { service, stations, providedBy, topDown: stations.length === 0 && providedBy !== null };
+  });
+
+  const atisStations = staffed.get('ATIS') ?? [];
+  services.push({ service: 'ATIS', stations: atisStations, providedBy: atisStations[0] ?? null, topDown: false });
+
+  return { icao, services, atis: atisBroadcast };
+}
@@ -0,0 +1,159 @@
+import { ControllerCoverage, CoveringStation, VatsimController } from '../types/vatsim';
+import { FIRBoundaryCollection, isPointInFeature } from './fir-detection';
+import { featuresAt, getFIRIndex } from './fir-index';
+import { VatspyFIR } from './vatspy-parser';
+import { UIRBoundary } from './uir-boundaries';
+
+// Works out which online en-route controller covers a position by joining
+// controller callsigns to the VATSpy [FIRs]/[UIRs] callsign prefixes and
+// testing the position against the matching FIR and merged UIR polygons.
+
+const FACILITY_FSS = 1;
+const FACILITY_CTR = 6;
+
+export interface CoverageData {
+  firs: VatspyFIR[];
+  uirs: UIRBoundary[];
+  boundaries: FIRBoundaryCollection;
+}
+
+interface Candidate {
+  station: CoveringStation;
+  depth: number; // callsign segments matched, more is a more specific sector
+}
+
+// Prefixes to try, most specific first: "EDMM_ZUG_CTR" -> EDMM_ZUG, EDMM.
+// Relief positions like "EDGG_1_CTR" fall back to the parent prefix.
+export function callsignPrefixes(callsign: string): string[] {
+  const parts = callsign.toUpperCase().split('_').filter(Boolean);
+  parts.pop(); // facility suffix
+  const prefixes: string[] = [];
+  for (let length = parts.length; length > 0; length--) {
+    prefixes.push(parts.slice(0, length).join('_'));
+  }
+  return prefixes;
+}
+
+const firIndexes = new WeakMap<VatspyFIR[], Map<string, VatspyFIR[]>>();
+
+// FIR lines by callsign prefix; controllers may also log on with the ICAO code
+function indexFIRs(firs: VatspyFIR[]): Map<string, VatspyFIR[]> {
+  const cached = firIndexes.get(firs);
+  if (cached) return cached;
+
+  const index = new Map<string, VatspyFIR[]>();
+  const add = (key: string, fir: VatspyFIR) => {
+    const list = index.get(key);
+    if (!list) {
+      index.set(key, [fir]);
+    } else if (!list.includes(fir)) {
+      list.push(fir);
+    }
+  };
+  for (const fir of firs) {
+    if (fir.callsignPrefix) add(fir.callsignPrefix.toUpperCase(), fir);
+    add(fir.icao.toUpperCase().replace(/-/g, '_'), fir);
+  }
+
+  firIndexes.set(firs, index);
+  return index;
+}
+
+function toStation(controller: VatsimController, name: string, airspace: string, facility: CoveringStation['facility']): CoveringStation {
+  return {
+    callsign: controller.callsign,
+    frequency: controller.frequency,
+    name,
+    controllerName: controller.name,
+    airspace,
+    facility
+  };
+}
+
+// Boundary ids whose polygons contain the position
+export function boundariesAt(latitude: number, longitude: number, boundaries: FIRBoundaryCollection): Set<string> {
+  const containing = new Set<string>();
+  for (const feature of featuresAt(getFIRIndex(boundaries), latitude, longitude)) {
+    if (feature.properties.id) {
+      containing.add(feature.properties.id);
+    }
+  }
+  return containing;
+}
+
+export function resolveCoverage(
+  latitude: number,
+  longitude: number,
+  controllers: VatsimController[],
+  data: CoverageData
+): ControllerCoverage {
+  const point: [number, number] = [longitude, latitude];
+  const containing = boundariesAt(latitude, longitude, data.boundaries);
+  const firIndex = indexFIRs(data.firs);
+
+  let best: Candidate | null = null;
+  let uir: CoveringStation | null = null;
+
+  for (const controller of controllers) {
+    if (controller.facility !== FACILITY_CTR && controller.facility !== FACILITY_FSS) continue;
+
+    // The most specific prefix that names any known airspace decides what the station is
+    for (const prefix of callsignPrefixes(controller.callsign)) {
+      const firs = firIndex.get(prefix);
+      const uirMatch = data.uirs.find(item => item.id.toUpperCase() === prefix);
+      if (!firs && !uirMatch) continue;
+
+      const fir = firs?.find(item => containing.has(item.boundary));
+      if (fir) {
+        const candidate: Candidate = {
+          station: toStation(controller, fir.name, fir.icao, controller.facility === FACILITY_CTR ? 'CTR' : 'FSS'),
+          depth: prefix.split('_').length
+        };
+        // Centres beat flight service stations, then the more specific sector wins
+        if (!best || isBetter(candidate, best)) {
+          best = candidate;
+        }
+      } else if (uirMatch && !uir && uirMatch.feature && isPointInFeature(point, uirMatch.feature)) {
+        uir = toStation(controller, uirMatch.name, uirMatch.id, 'UIR');
+      }
+      break;
+    }
+  }
+
+  return { station: best ? best.station : null, uir };
+}
+
+// Boundary ids worked by an online centre or FSS; an online UIR staffs all of its member FIRs
+export function staffedBoundaries(controllers: VatsimController[], data: CoverageData): string[] {
+  const firIndex = indexFIRs(data.firs);
+  const staffed = new Set<string>();
+
+  for (const controller of controllers) {
+    if (controller.facility !== FACILITY_CTR && controller.facility !== FACILITY_FSS) continue;
+
+    for (const prefix of callsignPrefixes(controller.callsign)) {
+      const firs = firIndex.get(prefix);
+      const uirMatch = data.uirs.find(item => item.id.toUpperCase() === prefix);
+      if (firs) {
+        firs.forEach(fir => staffed.add(fir.boundary));
+      } else if (uirMatch) {
+        for (const code of uirMatch.firs) {
+          const member = data.firs.find(fir => fir.icao === code);
+          staffed.add(member ? member.boundary : code);
+        }
+      } else {
+        continue;
+      }
+      break;
+    }
+  }
+
+  return Array.from(staffed);
+}
+
+function isBetter(candidate: Candidate, current: Candidate): boolean {
+  if (candidate.station.facility !== current.station.facility) {
+    return candidate.station.facility === 'CTR';
+  }
+  return candidate.depth > current.depth;
+}
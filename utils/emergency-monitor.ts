@@ -0,0 +1,89 @@
+import { EmergencyMonitorResult, EmergencySquawk } from '../types/vatsim';
+import { getVatsimSnapshot, onSnapshot, VatsimFeedSnapshot } from './vatsim-feed';
+import { getServerFIRNames, readBoundaries } from './vatspy-files';
+import { FIRBoundaryCollection } from './fir-detection';
+import { detectFIR } from './fir-index';
+import { normalizePilot } from './pilot-lookup';
+import { EMERGENCY_SQUAWKS, isEmergencySquawk, normalizeSquawk } from './squawk';
+
+// Network-wide scan for emergency squawks. Once the monitor has been asked for
+// it follows every feed update the poller picks up, so "first seen" holds even
+// between page polls.
+
+interface TrackedSquawk {
+  code: string;
+  logonTime: string;
+  firstSeen: string;
+}
+
+let tracked = new Map<string, TrackedSquawk>();
+let latestScan: { updateTimestamp: string; result: Promise<EmergencyMonitorResult> } | null = null;
+let subscribed = false;
+
+async function scan(snapshot: VatsimFeedSnapshot): Promise<EmergencyMonitorResult> {
+  const squawking = snapshot.data.pilots
+    .filter(pilot => isEmergencySquawk(normalizeSquawk(pilot.transponder)))
+    .map(normalizePilot);
+
+  // Carried over before the first await, so a scan of the next update that starts
+  // while this one waits for the boundaries still sees these first-seen times
+  const stillSquawking = new Map<string, TrackedSquawk>();
+  squawking.forEach(pilot => {
+    // A new code or a new connection restarts the clock
+    const previous = tracked.get(pilot.callsign);
+    const firstSeen = previous && previous.code === pilot.transponder && previous.logonTime === pilot.logon_time
+      ? previous.firstSeen
+      : pilot.last_updated;
+    stillSquawking.set(pilot.callsign, { code: pilot.transponder, logonTime: pilot.logon_time, firstSeen });
+  });
+  tracked = stillSquawking;
+
+  let boundaries: FIRBoundaryCollection | null = null;
+  let firNames = new Map<string, string>();
+  if (squawking.length > 0) {
+    try {
+      [boundaries, firNames] = await Promise.all([readBoundaries(), getServerFIRNames()]);
+    } catch (error) {
+      console.error('Error loading FIR boundaries:', error);
+    }
+  }
+
+  const emergencies: EmergencySquawk[] = squawking.map(pilot => ({
+    cid: pilot.cid,
+    callsign: pilot.callsign,
+    name: pilot.name,
+    code: pilot.transponder,
+    meaning: EMERGENCY_SQUAWKS[pilot.transponder],
+    latitude: pilot.latitude,
+    longitude: pilot.longitude,
+    altitude: pilot.altitude,
+    groundspeed: pilot.groundspeed,
+    heading: pilot.heading,
+    aircraft: pilot.flight_plan?.aircraft_short || null,
+    departure: pilot.flight_plan?.departure || null,
+    arrival: pilot.flight_plan?.arrival || null,
+    currentFIR: boundaries ? detectFIR(pilot.latitude, pilot.longitude, boundaries, firNames) : null,
+    firstSeen: stillSquawking.get(pilot.callsign)!.firstSeen
+  }));
+
+  emergencies.sort((a, b) => Date.parse(a.firstSeen) - Date.parse(b.firstSeen));
+  return { emergencies, updateTimestamp: snapshot.updateTimestamp };
+}
+
+// Each feed update is scanned once, however many callers ask for it
+function scanOnce(snapshot: VatsimFeedSnapshot): Promise<EmergencyMonitorResult> {
+  if (!latestScan || latestScan.updateTimestamp !== snapshot.updateTimestamp) {
+    latestScan = { updateTimestamp: snapshot.updateTimestamp, result: scan(snapshot) };
+  }
+  return latestScan.result;
+}
+
+export async function getEmergencySquawks(): Promise<EmergencyMonitorResult> {
+  if (!subscribed) {
+    subscribed = true;
+    onSnapshot(snapshot => {
+      scanOnce(snapshot).catch(error => console.error('Error scanning for emergency squawks:', error));
+    });
+  }
+  return scanOnce(await getVatsimSnapshot());
+}
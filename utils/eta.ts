@@ -0,0 +1,187 @@
+import { AircraftTypeInfo, EtaConfidence, EtaEstimate, FlightPhase, ResolvedRoute, VatsimPilot } from '../types/vatsim';
+import { calculateDistance } from './geo';
+import { routeDistance, splitRouteAtPosition } from './route-resolver';
+import { parseCruiseSpeed, parseFiledAltitude, parseFiledDuration } from './flight-plan-fields';
+
+// Arrival estimate that follows the filed route when it could be resolved and
+// models the flight profile ahead: climb, cruise, descent and approach each
+// flown at their own speed, plus taxi time before departure.
+
+export interface EtaContext {
+  route?: ResolvedRoute | null;
+  phase?: FlightPhase | null;
+  aircraft?: AircraftTypeInfo | null;
+  now?: Date;
+}
+
+const BEFORE_DEPARTURE: FlightPhase[] = ['preflight', 'taxi-out'];
+const AFTER_LANDING: FlightPhase[] = ['landed', 'taxi-in', 'arrived'];
+// Phases where the current groundspeed is representative of the rest of the cruise
+const ENROUTE_PHASES: FlightPhase[] = ['cruise', 'step-climb', 'step-descent'];
+
+export const TAXI_OUT_MINUTES = 10;
+const APPROACH_DISTANCE = 30; // nm flown at approach speed
+const APPROACH_ALTITUDE = 3000; // ft where the descent hands over to the approach
+const DESCENT_FT_PER_NM = 318; // 3 degree path
+const CLIMB_FT_PER_NM = 500;
+const CLIMB_SPEED_FACTOR = 0.75; // average climb groundspeed as a share of cruise
+const DESCENT_SPEED_FACTOR = 0.8;
+const APPROACH_SPEED_FACTOR = 0.42;
+const MIN_APPROACH_SPEED = 70;
+const MAX_APPROACH_SPEED = 200;
+
+interface RemainingDistance {
+  distance: number;
+  basis: 'route' | 'direct';
+}
+
+interface RemainingPath {
+  points: { latitude: number; longitude: number }[]; // from the aircraft to the arrival airport
+  basis: 'route' | 'direct';
+}
+
+// Path still to fly, along the route when it ends at the arrival airport
+export function remainingPath(
+  pilot: { latitude: number; longitude: number },
+  arrival: { latitude: number; longitude: number },
+  route: ResolvedRoute | null | undefined
+): RemainingPath {
+  const position = { latitude: pilot.latitude, longitude: pilot.longitude };
+  const waypoints = route ? route.waypoints : [];
+  const last = waypoints[waypoints.length - 1];
+  const endsAtArrival = last && last.kind === 'airport' &&
+    calculateDistance(last.latitude, last.longitude, arrival.latitude, arrival.longitude) < 1;
+
+  if (waypoints.length >= 2 && endsAtArrival) {
+    const { remaining } = splitRouteAtPosition(waypoints, pilot.latitude, pilot.longitude);
+    return { points: [position, ...remaining], basis: 'route' };
+  }
+
+  return { points: [position, { latitude: arrival.latitude, longitude: arrival.longitude }], basis: 'direct' };
+}
+
+// Distance still to fly, along the route when it ends at the arrival airport
+export function remainingDistance(
+  pilot: { latitude: number; longitude: number },
+  arrival: { latitude: number; longitude: number },
+  route: ResolvedRoute | null | undefined
+): RemainingDistance {
+  const { points, basis } = remainingPath(pilot, arrival, route);
+  return { distance: routeDistance(points), basis };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function buildEstimate(
+  distance: number,
+  durationMinutes: number,
+  basis: EtaEstimate['basis'],
+  confidence: EtaConfidence,
+  now: Date
+): EtaEstimate {
+  const minutes = Math.max(0, Math.round(durationMinutes));
+  return {
+    distance: Math.round(distance),
+    durationMinutes: minutes,
+    arrivalTime: new Date(now.getTime() + minutes * 60 * 1000).toISOString(),
+    basis,
+    confidence
+  };
+}
+
+export function estimateArrival(
+  pilot: VatsimPilot,
+  arrival: { latitude: number; longitude: number } | null,
+  context: EtaContext = {}
+): EtaEstimate | null {
+  const { route, phase = null, aircraft = null, now = new Date() } = context;
+  const flightPlan = pilot.flight_plan;
+
+  if (phase && AFTER_LANDING.includes(phase)) return null;
+
+  const onGround = phase ? BEFORE_DEPARTURE.includes(phase) : pilot.groundspeed < 40;
+  const filedSpeed = flightPlan ? parseCruiseSpeed(flightPlan.cruise_tas) : null;
+  const cruiseSpeed = filedSpeed ?? aircraft?.cruiseSpeed ?? null;
+  const taxiMinutes = onGround ? TAXI_OUT_MINUTES : 0;
+
+  // Nothing to measure against: the filed enroute time is the best we have
+  if (!arrival) {
+    const enrouteMinutes = flightPlan && onGround ? parseFiledDuration(flightPlan.enroute_time) : null;
+    return enrouteMinutes !== null
+      ? buildEstimate(0, taxiMinutes + enrouteMinutes, 'filed-time', 'low', now)
+      : null;
+  }
+
+  const { distance, basis } = remainingDistance(pilot, arrival, route);
+
+  const liveSpeed = !onGround && pilot.groundspeed > 0 ? pilot.groundspeed : null;
+  const enrouteSpeed = phase && ENROUTE_PHASES.includes(phase) && liveSpeed
+    ? liveSpeed
+    : cruiseSpeed ?? liveSpeed;
+
+  if (!enrouteSpeed) {
+    const enrouteMinutes = flightPlan && onGround ? parseFiledDuration(flightPlan.enroute_time) : null;
+    return enrouteMinutes !== null
+      ? buildEstimate(distance, taxiMinutes + enrouteMinutes, 'filed-time', 'low', now)
+      : null;
+  }
+
+  const profileSpeed = cruiseSpeed ?? enrouteSpeed;
+  const approachSpeed = clamp(profileSpeed * APPROACH_SPEED_FACTOR, MIN_APPROACH_SPEED, MAX_APPROACH_SPEED);
+  const filedAltitude = flightPlan ? parseFiledAltitude(flightPlan.altitude) : null;
+  const cruiseAltitude = Math.max(filedAltitude ?? 0, onGround ? 0 : pilot.altitude);
+  const descending = phase === 'descent' || phase === 'approach';
+
+  // Split what is left into approach, descent, climb and cruise, from the arrival end
+  let left = distance;
+  const approachDistance = Math.min(left, APPROACH_DISTANCE);
+  left -= approachDistance;
+
+  const descentFrom = descending ? pilot.altitude : cruiseAltitude;
+  const descentDistance = Math.min(left, Math.max(0, descentFrom - APPROACH_ALTITUDE) / DESCENT_FT_PER_NM);
+  left -= descentDistance;
+
+  const climbing = onGround || phase === 'takeoff' || phase === 'climb';
+  const climbFrom = onGround ? 0 : pilot.altitude;
+  const climbDistance = climbing ? Math.min(left, Math.max(0, cruiseAltitude - climbFrom) / CLIMB_FT_PER_NM) : 0;
+  left -= climbDistance;
+
+  const hours =
+    climbDistance / (profileSpeed * CLIMB_SPEED_FACTOR) +
+    left / enrouteSpeed +
+    descentDistance / (profileSpeed * DESCENT_SPEED_FACTOR) +
+    approachDistance / approachSpeed;
+
+  // Route-based and flying at a representative speed is as good as it gets
+  let confidence: EtaConfidence = 'high';
+  if (basis === 'direct' && distance > APPROACH_DISTANCE) confidence = 'medium';
+  if (!liveSpeed || !phase || (!filedSpeed && !ENROUTE_PHASES.includes(phase) && !descending)) {
+    confidence = confidence === 'high' ? 'medium' : 'low';
+  }
+
+  return buildEstimate(distance, taxiMinutes + hours * 60, basis, confidence, now);
+}
+
+// Format an estimate for display, using the browser's timezone for local time
+export function formatEta(eta: EtaEstimate): { duration: string; etaUTC: string; etaLocal: string; distance: number; confidence: EtaConfidence; basis: EtaEstimate['basis'] } {
+  const hours = Math.floor(eta.durationMinutes / 60);
+  const minutes = eta.durationMinutes % 60;
+  const duration = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+
+  const arrivalTime = new Date(eta.arrivalTime);
+
+  // Format UTC time, e.g. "15:45Z"
+  const etaUTC = arrivalTime.toUTCString().slice(17, 22) + 'Z';
+
+  // Format local time with timezone
+  const etaLocal = arrivalTime.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+    timeZoneName: 'short'
+  });
+
+  return { duration, etaUTC, etaLocal, distance: eta.distance, confidence: eta.confidence, basis: eta.basis };
+}
@@ -0,0 +1,81 @@
+export interface FIRBoundaryFeature {
+  type: 'Feature';
+  properties: {
+    id: string;
+    oceanic: string;
+    label_lon: string;
+    label_lat: string;
+    region?: string;
+    division?: string;
+  };
+  geometry:
+    | { type: 'Polygon'; coordinates: number[][][] }
+    | { type: 'MultiPolygon'; coordinates: number[][][][] };
+}
+
+export interface FIRBoundaryCollection {
+  type: 'FeatureCollection';
+  features: FIRBoundaryFeature[];
+}
+
+// Point-in-polygon algorithm to check if a point is inside a polygon
+export function isPointInPolygon(point: [number, number], polygon: number[][][]): boolean {
+  const [lng, lat] = point;
+  
+  // Check all rings in the polygon (first ring is exterior, others are holes)
+  for (let ringIndex = 0; ringIndex < polygon.length; ringIndex++) {
+    const ring = polygon[ringIndex];
+    let inside = false;
+    
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      
+      if (((yi > lat) !== (yj > lat)) && (lng < (xj - xi) * (lat - yi) / (yj - yi) + xi)) {
+        inside = !inside;
+      }
+    }
+    
+    // For exterior ring (index 0), we want to be inside
+    // For hole rings (index > 0), we want to be outside
+    if (ringIndex === 0 && !inside) {
+      return false; // Not in exterior ring
+    }
+    if (ringIndex > 0 && inside) {
+      return false; // Inside a hole
+    }
+  }
+  
+  return true;
+}
+
+// Check if point is in MultiPolygon
+export function isPointInMultiPolygon(point: [number, number], multiPolygon: number[][][][]): boolean {
+  return multiPolygon.some(polygon => isPointInPolygon(point, polygon));
+}
+
+export function isPointInFeature(point: [number, number], feature: FIRBoundaryFeature): boolean {
+  if (feature.geometry.type === 'MultiPolygon') {
+    return isPointInMultiPolygon(point, feature.geometry.coordinates);
+  }
+  if (feature.geometry.type === 'Polygon') {
+    return isPointInPolygon(point, feature.geometry.coordinates);
+  }
+  return false;
+}
+
+let boundariesRequest: Promise<FIRBoundaryCollection | null> | null = null;
+
+// Fetch Boundaries.geojson from the public folder for drawing in the browser
+export function loadFIRBoundaries(): Promise<FIRBoundaryCollection | null> {
+  if (!boundariesRequest) {
+    boundariesRequest = fetch('/vatspy-data/Boundaries.geojson')
+      .then(response => response.json() as Promise<FIRBoundaryCollection>)
+      .catch(error => {
+        console.error('Error loading FIR boundaries:', error);
+        boundariesRequest = null;
+        return null;
+      });
+  }
+  return boundariesRequest;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { FIRBoundaryCollection, FIRBoundaryFeature } from './fir-detection';
+import { buildFIRIndex, classifyPositions, detectFIR, featuresAt } from './fir-index';
+
+// FIR lookups against polygons that cross the antimeridian
+
+const feature = (id: string, geometry: FIRBoundaryFeature['geometry'], oceanic = '0'): FIRBoundaryFeature => ({
+  type: 'Feature',
+  properties: { id, oceanic, label_lat: '0', label_lon: '0' },
+  geometry
+});
+
+const boundaries: FIRBoundaryCollection = {
+  type: 'FeatureCollection',
+  features: [
+    // One ring drawn straight across 180°, as other data sources do it
+    feature('WRAP', {
+      type: 'Polygon',
+      coordinates: [[[170, -10], [-170, -10], [-170, 10], [170, 10], [170, -10]]]
+    }),
+    // Split at 180° into two halves, as VATSpy does for NZZO, PAZA and others
+    feature('SPLIT', {
+      type: 'MultiPolygon',
+      coordinates: [
+        [[[170, 30], [180, 30], [180, 40], [170, 40], [170, 30]]],
+        [[[-180, 30], [-170, 30], [-170, 40], [-180, 40], [-180, 30]]]
+      ]
+    }, '1'),
+    // Land FIR inside the oceanic one
+    feature('LAND', {
+      type: 'Polygon',
+      coordinates: [[[178, 33], [-178, 33], [-178, 37], [178, 37], [178, 33]]]
+    }),
+    // Ordinary FIR well away from 180°
+    feature('EGTT', {
+      type: 'Polygon',
+      coordinates: [[[-6, 50], [2, 50], [2, 56], [-6, 56], [-6, 50]]]
+    })
+  ]
+};
+
+const firNames = new Map([['WRAP', 'Wrapped'], ['SPLIT', 'Split Oceanic'], ['LAND', 'Island'], ['EGTT', 'London']]);
+
+describe('featuresAt', () => {
+  const index = buildFIRIndex(boundaries);
+  const idsAt = (latitude: number, longitude: number) =>
+    featuresAt(index, latitude, longitude).map(item => item.properties.id);
+
+  it('finds a ring drawn across 180° on both sides', () => {
+    expect(idsAt(0, 175)).toEqual(['WRAP']);
+    expect(idsAt(0, -175)).toEqual(['WRAP']);
+    expect(idsAt(0, 180)).toEqual(['WRAP']);
+    expect(idsAt(0, -180)).toEqual(['WRAP']);
+  });
+
+  it('misses points outside the wrapped ring', () => {
+    expect(idsAt(0, 160)).toEqual([]);
+    expect(idsAt(0, -160)).toEqual([]);
+  });
+
+  it('finds both halves of a FIR split at 180°', () => {
+    expect(idsAt(32, 175)).toEqual(['SPLIT']);
+    expect(idsAt(32, -175)).toEqual(['SPLIT']);
+  });
+
+  it('finds a land FIR across 180° inside an oceanic one', () => {
+    expect(idsAt(35, 179.5)).toEqual(['SPLIT', 'LAND']);
+    expect(idsAt(35, -179.5)).toEqual(['SPLIT', 'LAND']);
+  });
+
+  it('finds ordinary FIRs and nothing outside every FIR', () => {
+    expect(idsAt(51.5, -0.1)).toEqual(['EGTT']);
+    expect(idsAt(-60, 0)).toEqual([]);
+  });
+});
+
+describe('detectFIR', () => {
+  it('prefers the land FIR over the oceanic one', () => {
+    expect(detectFIR(35, -179.5, boundaries, firNames)).toEqual({ id: 'LAND', name: 'Island', isOceanic: false });
+  });
+
+  it('falls back to the oceanic FIR', () => {
+    expect(detectFIR(39, 171, boundaries, firNames)).toEqual({ id: 'SPLIT', name: 'Split Oceanic', isOceanic: true });
+  });
+
+  it('returns null outside every FIR', () => {
+    expect(detectFIR(-60, 0, boundaries, firNames)).toBeNull();
+  });
+});
+
+describe('classifyPositions', () => {
+  it('classifies every position in one pass, keyed by callsign', () => {
+    const firs = classifyPositions(boundaries, firNames, [
+      { callsign: 'ANZ1', latitude: 35, longitude: 179.5 },
+      { callsign: 'UAL2', latitude: 32, longitude: -175 },
+      { callsign: 'BAW3', latitude: 51.5, longitude: -0.1 },
+      { callsign: 'XXX4', latitude: -60, longitude: 0 }
+    ]);
+
+    expect(firs).toEqual({
+      ANZ1: { id: 'LAND', name: 'Island', isOceanic: false },
+      UAL2: { id: 'SPLIT', name: 'Split Oceanic', isOceanic: true },
+      BAW3: { id: 'EGTT', name: 'London', isOceanic: false },
+      XXX4: null
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { CurrentFIR } from '../types/vatsim';
+import { FIRBoundaryCollection, FIRBoundaryFeature, isPointInPolygon } from './fir-detection';
+
+// Bounding-box grid over the FIR polygons so a lookup only runs the
+// point-in-polygon test against the handful of polygons near the position.
+// Each part of a MultiPolygon is indexed on its own: VATSpy splits FIRs like
+// NZZO and PAZA at 180°, and one box around both halves would span the globe.
+
+const CELL_SIZE = 5; // degrees
+
+interface IndexedPolygon {
+  order: number; // position of the feature in Boundaries.geojson
+  feature: FIRBoundaryFeature;
+  polygon: number[][][]; // longitudes made continuous, so may run past ±180
+  minLon: number;
+  maxLon: number;
+  minLat: number;
+  maxLat: number;
+}
+
+export interface FIRIndex {
+  cells: Map<string, IndexedPolygon[]>;
+  size: number; // polygons indexed
+}
+
+// Shift each vertex by whole turns so no edge jumps more than 180° of longitude
+function unwrapRing(ring: number[][]): number[][] {
+  const unwrapped: number[][] = [];
+  for (const [lon, lat] of ring) {
+    const previous = unwrapped[unwrapped.length - 1];
+    let shifted = lon;
+    if (previous) {
+      while (shifted - previous[0] > 180) shifted -= 360;
+      while (shifted - previous[0] < -180) shifted += 360;
+    }
+    unwrapped.push([shifted, lat]);
+  }
+  return unwrapped;
+}
+
+const cellKey = (latCell: number, lonCell: number) => `${latCell}:${lonCell}`;
+
+// Grid column for a longitude in any turn, wrapped into -180..180
+const lonCellOf = (lon: number): number => {
+  const wrapped = ((lon + 180) % 360 + 360) % 360 - 180;
+  return Math.floor(wrapped / CELL_SIZE);
+};
+
+export function buildFIRIndex(boundaries: FIRBoundaryCollection): FIRIndex {
+  const cells = new Map<string, IndexedPolygon[]>();
+  let size = 0;
+
+  boundaries.features.forEach((feature, order) => {
+    const polygons = feature.geometry.type === 'Polygon'
+      ? [feature.geometry.coordinates]
+      : feature.geometry.coordinates;
+
+    for (const rings of polygons) {
+      if (rings.length === 0 || rings[0].length === 0) continue;
+      const polygon = rings.map(unwrapRing);
+      // Holes go in the same turn as the outer ring
+      for (const hole of polygon.slice(1)) {
+        const shift = Math.round((polygon[0][0][0] - hole[0][0]) / 360) * 360;
+        hole.forEach(vertex => { vertex[0] += shift; });
+      }
+
+      // Keep the box in the -180..180 turn where possible
+      if (polygon[0][0][0] > 180 || polygon[0][0][0] < -180) {
+        const shift = polygon[0][0][0] > 180 ? -360 : 360;
+        polygon.forEach(ring => ring.forEach(vertex => { vertex[0] += shift; }));
+      }
+
+      const entry: IndexedPolygon = { order, feature, polygon, minLon: Infinity, maxLon: -Infinity, minLat: Infinity, maxLat: -Infinity };
+      for (const [lon, lat] of polygon[0]) {
+        entry.minLon = Math.min(entry.minLon, lon);
+        entry.maxLon = Math.max(entry.maxLon, lon);
+        entry.minLat = Math.min(entry.minLat, lat);
+        entry.maxLat = Math.max(entry.maxLat, lat);
+      }
+
+      const lonCells = Math.min(Math.floor(entry.maxLon / CELL_SIZE) - Math.floor(entry.minLon / CELL_SIZE), 360 / CELL_SIZE - 1);
+      const firstLonCell = Math.floor(entry.minLon / CELL_SIZE);
+      for (let latCell = Math.floor(entry.minLat / CELL_SIZE); latCell <= Math.floor(entry.maxLat / CELL_SIZE); latCell++) {
+        for (let step = 0; step <= lonCells; step++) {
+          const key = cellKey(latCell, lonCellOf((firstLonCell + step) * CELL_SIZE));
+          const list = cells.get(key);
+          if (list) {
+            list.push(entry);
+          } else {
+            cells.set(key, [entry]);
+          }
+        }
+      }
+      size++;
+    }
+  });
+
+  return { cells, size };
+}
+
+// Features containing the position, in Boundaries.geojson order
+export function featuresAt(index: FIRIndex, latitude: number, longitude: number): FIRBoundaryFeature[] {
+  const candidates = index.cells.get(cellKey(Math.floor(latitude / CELL_SIZE), lonCellOf(longitude))) ?? [];
+  const matches: IndexedPolygon[] = [];
+
+  for (const entry of candidates) {
+    if (latitude < entry.minLat || latitude > entry.maxLat) continue;
+    if (matches.some(match => match.feature === entry.feature)) continue;
+
+    // Test the position in the polygon's own turn of longitude
+    for (const lon of [longitude, longitude + 360, longitude - 360]) {
+      if (lon >= entry.minLon && lon <= entry.maxLon && isPointInPolygon([lon, latitude], entry.polygon)) {
+        matches.push(entry);
+        break;
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.order - b.order).map(match => match.feature);
+}
+
+// Detect which FIR a position is within. Land FIRs win over the oceanic FIRs they overlap
+export function detectFIR(
+  latitude: number,
+  longitude: number,
+  boundaries: FIRBoundaryCollection,
+  firNames: Map<string, string>
+): CurrentFIR | null {
+  const features = featuresAt(getFIRIndex(boundaries), latitude, longitude);
+  const feature = features.find(item => item.properties.oceanic !== '1') ?? features[0];
+  if (!feature) {
+    return null;
+  }
+  const id = feature.properties.id || 'Unknown FIR';
+  return { id, name: firNames.get(id) || id, isOceanic: feature.properties.oceanic === '1' };
+}
+
+export interface PositionToClassify {
+  callsign: string;
+  latitude: number;
+  longitude: number;
+}
+
+// FIR for every position in one pass, e.g. all pilots on the network
+export function classifyPositions(
+  boundaries: FIRBoundaryCollection,
+  firNames: Map<string, string>,
+  positions: PositionToClassify[]
+): Record<string, CurrentFIR | null> {
+  const result: Record<string, CurrentFIR | null> = {};
+  for (const position of positions) {
+    result[position.callsign] = detectFIR(position.latitude, position.longitude, boundaries, firNames);
+  }
+  return result;
+}
+
+const indexes = new WeakMap<FIRBoundaryCollection, FIRIndex>();
+
+// Index for a boundary collection, built on first use
+export function getFIRIndex(boundaries: FIRBoundaryCollection): FIRIndex {
+  let index = indexes.get(boundaries);
+  if (!index) {
+    index = buildFIRIndex(boundaries);
+    indexes.set(boundaries, index);
+  }
+  return index;
+}
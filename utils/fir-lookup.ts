@@ -0,0 +1,62 @@
+import { CurrentFIR } from '../types/vatsim';
+import { PositionToClassify } from './fir-index';
+
+// Browser side of the FIR lookup worker: one shared worker, requests matched
+// to replies by id
+
+export interface FIRLookupRequest {
+  id: number;
+  positions: PositionToClassify[];
+}
+
+export interface FIRLookupResponse {
+  id: number;
+  firs: Record<string, CurrentFIR | null> | null;
+  error?: string;
+}
+
+interface PendingLookup {
+  resolve: (firs: Record<string, CurrentFIR | null>) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingLookup>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./fir-lookup.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<FIRLookupResponse>) => {
+      const { id, firs, error } = event.data;
+      const lookup = pending.get(id);
+      pending.delete(id);
+      if (!lookup) return;
+      if (firs) {
+        lookup.resolve(firs);
+      } else {
+        lookup.reject(new Error(error || 'FIR lookup failed'));
+      }
+    };
+    worker.onerror = event => {
+      // The worker is gone; fail everything waiting and start a new one next time
+      pending.forEach(lookup => lookup.reject(new Error(event.message || 'FIR lookup worker failed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+// FIR for each position by callsign, e.g. every pilot in the feed in one call
+export function classifyPositionsInWorker(positions: PositionToClassify[]): Promise<Record<string, CurrentFIR | null>> {
+  if (typeof Worker === 'undefined') {
+    return Promise.reject(new Error('Web Workers are not supported in this browser'));
+  }
+  return new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, positions } as FIRLookupRequest);
+  });
+}
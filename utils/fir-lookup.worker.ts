@@ -0,0 +1,37 @@
+import { FIRBoundaryCollection } from './fir-detection';
+import { classifyPositions, getFIRIndex } from './fir-index';
+import { parseVatspyFIRNames } from './vatspy-parser';
+import { FIRLookupRequest, FIRLookupResponse } from './fir-lookup';
+
+// Web Worker that keeps the FIR index off the main thread. Both VATSpy files
+// are fetched and indexed once, then each message classifies a batch of positions.
+
+let ready: Promise<{ boundaries: FIRBoundaryCollection; firNames: Map<string, string> }> | null = null;
+
+function load() {
+  if (!ready) {
+    ready = Promise.all([
+      fetch('/vatspy-data/Boundaries.geojson').then(response => response.json() as Promise<FIRBoundaryCollection>),
+      fetch('/vatspy-data/VATSpy.dat').then(response => response.text())
+    ]).then(([boundaries, vatspyDat]) => {
+      getFIRIndex(boundaries);
+      return { boundaries, firNames: parseVatspyFIRNames(vatspyDat) };
+    });
+    ready.catch(() => {
+      ready = null;
+    });
+  }
+  return ready;
+}
+
+self.onmessage = async (event: MessageEvent<FIRLookupRequest>) => {
+  const { id, positions } = event.data;
+  let response: FIRLookupResponse;
+  try {
+    const { boundaries, firNames } = await load();
+    response = { id, firs: classifyPositions(boundaries, firNames, positions) };
+  } catch (error) {
+    response = { id, firs: null, error: error instanceof Error ? error.message : 'FIR lookup failed' };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,141 @@
+import { CurrentFIR, EetEntry, EtaEstimate, FIRSequence, FIRSequenceEntry, ResolvedRoute, VatsimPilot } from '../types/vatsim';
+import { FIRBoundaryCollection } from './fir-detection';
+import { detectFIR } from './fir-index';
+import { calculateDistance, intermediatePoint } from './geo';
+import { remainingPath } from './eta';
+import { routeDistance } from './route-resolver';
+
+// The FIRs ahead of the aircraft along the filed route (or the great circle to
+// the arrival airport), found by sampling the path against Boundaries.geojson.
+// Entry times scale the ETA by distance, so they follow the same flight profile.
+
+const SAMPLE_STEP_NM = 10;
+const BISECT_STEPS = 5; // narrows each boundary crossing to well under a mile
+const MIN_SPEED_FOR_TIMES = 50; // knots; slower than this and there is no useful estimate
+
+export interface FIRSequenceContext {
+  route?: ResolvedRoute | null;
+  eta?: EtaEstimate | null;
+  eet?: EetEntry[];
+  takeoffTime?: string | null; // what EET/ elapsed times count from
+  boundaries: FIRBoundaryCollection;
+  firNames: Map<string, string>;
+  staffedFIRs?: string[];
+  now?: Date;
+}
+
+interface Crossing {
+  fir: CurrentFIR;
+  distance: number;
+}
+
+function findCrossings(
+  points: { latitude: number; longitude: number }[],
+  boundaries: FIRBoundaryCollection,
+  firNames: Map<string, string>
+): Crossing[] {
+  const crossings: Crossing[] = [];
+  const firAt = (latitude: number, longitude: number) => detectFIR(latitude, longitude, boundaries, firNames);
+  let currentId: string | null = null;
+  let travelled = 0;
+
+  const first = points[0];
+  const start = firAt(first.latitude, first.longitude);
+  if (start) {
+    crossings.push({ fir: start, distance: 0 });
+    currentId = start.id;
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const length = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+    const steps = Math.max(1, Math.ceil(length / SAMPLE_STEP_NM));
+    const pointAt = (fraction: number) => intermediatePoint(from.latitude, from.longitude, to.latitude, to.longitude, fraction);
+
+    for (let step = 1; step <= steps; step++) {
+      const [latitude, longitude] = pointAt(step / steps);
+      const fir = firAt(latitude, longitude);
+      // Gaps between boundaries don't end the FIR the path was in
+      if (!fir || fir.id === currentId) continue;
+
+      // Bisect between the last two samples for the crossing point
+      let low = (step - 1) / steps;
+      let high = step / steps;
+      for (let k = 0; k < BISECT_STEPS; k++) {
+        const middle = (low + high) / 2;
+        const [midLat, midLon] = pointAt(middle);
+        if (firAt(midLat, midLon)?.id === fir.id) {
+          high = middle;
+        } else {
+          low = middle;
+        }
+      }
+
+      crossings.push({ fir, distance: travelled + length * high });
+      currentId = fir.id;
+    }
+    travelled += length;
+  }
+
+  return crossings;
+}
+
+// Boundary ids add a sector suffix to the FIR code: EDGG-BAD is part of EDGG
+const firCode = (id: string): string => id.split('-')[0];
+
+export function predictFIRSequence(
+  pilot: VatsimPilot,
+  arrival: { latitude: number; longitude: number } | null,
+  context: FIRSequenceContext
+): FIRSequence | null {
+  if (!arrival) return null;
+
+  const { route, eta = null, eet = [], takeoffTime = null, boundaries, firNames, staffedFIRs = [], now = new Date() } = context;
+  const { points, basis } = remainingPath(pilot, arrival, route);
+  const crossings = findCrossings(points, boundaries, firNames);
+  if (crossings.length === 0) return null;
+
+  const totalDistance = routeDistance(points);
+
+  // Minutes from now to a distance along the path
+  const minutesTo = (distance: number): number | null => {
+    if (eta && totalDistance > 0) return eta.durationMinutes * distance / totalDistance;
+    if (pilot.groundspeed >= MIN_SPEED_FOR_TIMES) return distance / pilot.groundspeed * 60;
+    return null;
+  };
+  const takeoff = takeoffTime ? Date.parse(takeoffTime) : NaN;
+  // A FIR counts as staffed when the whole FIR or any of its sectors is online
+  const staffed = new Set(staffedFIRs.map(firCode));
+  const remainingEet = eet.slice();
+
+  const entries: FIRSequenceEntry[] = crossings.map(({ fir, distance }, index) => {
+    const current = index === 0 && distance === 0;
+    const minutes = current ? null : minutesTo(distance);
+    const entryTime = minutes !== null ? new Date(now.getTime() + minutes * 60000) : null;
+
+    const filedIndex = remainingEet.findIndex(entry => entry.location === firCode(fir.id));
+    const filed = filedIndex >= 0 ? remainingEet.splice(filedIndex, 1)[0] : null;
+    const filedEntryTime = filed && !isNaN(takeoff) ? new Date(takeoff + filed.minutes * 60000) : null;
+
+    return {
+      id: fir.id,
+      name: fir.name,
+      isOceanic: fir.isOceanic,
+      current,
+      distance: Math.round(distance),
+      entryTime: entryTime ? entryTime.toISOString() : null,
+      filedEntryTime: filedEntryTime ? filedEntryTime.toISOString() : null,
+      differenceMinutes: entryTime && filedEntryTime
+        ? Math.round((entryTime.getTime() - filedEntryTime.getTime()) / 60000)
+        : null,
+      staffed: staffed.has(firCode(fir.id))
+    };
+  });
+
+  // Filed points already behind the aircraft aren't missing from the prediction
+  const unmatchedEet = remainingEet.filter(entry =>
+    isNaN(takeoff) || takeoff + entry.minutes * 60000 > now.getTime());
+
+  return { entries, basis, unmatchedEet };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { FlightPhase, WatchlistStatus } from '../types/vatsim';
+import { detectFlightEvents } from './flight-events';
+
+const status = (state: WatchlistStatus['state'], phase: FlightPhase | null): WatchlistStatus => ({
+  state,
+  callsign: 'BAW123',
+  departure: 'EGLL',
+  arrival: 'KJFK',
+  phase,
+  eta: null,
+  transponder: '2000',
+  currentFIR: null,
+  activeFrequency: null,
+  checkedAt: '2024-01-01T00:00:00Z'
+});
+
+const eventTypes = (previous: WatchlistStatus, next: WatchlistStatus) =>
+  detectFlightEvents(previous, next).map(event => event.type);
+
+describe('detectFlightEvents', () => {
+  it('waits for the takeoff roll to end before reporting a takeoff', () => {
+    expect(eventTypes(status('on-ground', 'taxi-out'), status('airborne', 'takeoff'))).toEqual([]);
+    expect(eventTypes(status('airborne', 'takeoff'), status('airborne', 'climb'))).toEqual(['takeoff']);
+  });
+
+  it('reports a takeoff when the roll falls between two samples', () => {
+    expect(eventTypes(status('on-ground', 'taxi-out'), status('airborne', 'climb'))).toEqual(['takeoff']);
+  });
+
+  it('does not report a landing for a rejected takeoff', () => {
+    expect(eventTypes(status('airborne', 'takeoff'), status('on-ground', 'taxi-out'))).toEqual([]);
+    expect(eventTypes(status('airborne', 'approach'), status('on-ground', 'landed'))).toEqual(['landing']);
+  });
+});
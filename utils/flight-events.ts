@@ -0,0 +1,126 @@
+import { FlightEvent, FlightEventType, WatchlistStatus } from '../types/vatsim';
+import { EMERGENCY_SQUAWKS, isEmergencySquawk } from './squawk';
+
+// Events worth a browser notification, found by comparing two successive
+// watchlist snapshots of the same flight, plus the throttling that keeps a
+// flaky connection from raising the same alert over and over.
+
+export const FLIGHT_EVENT_TYPES: FlightEventType[] = [
+  'logon',
+  'takeoff',
+  'fir-crossing',
+  'top-of-descent',
+  'landing',
+  'disconnect',
+  'emergency-squawk',
+  'frequency-change'
+];
+
+export const FLIGHT_EVENT_LABELS: Record<FlightEventType, string> = {
+  'logon': 'Logs on',
+  'takeoff': 'Takeoff',
+  'fir-crossing': 'FIR boundary crossing',
+  'top-of-descent': 'Top of descent',
+  'landing': 'Landing',
+  'disconnect': 'Disconnect',
+  'emergency-squawk': 'Emergency squawk',
+  'frequency-change': 'Frequency change'
+};
+
+const MINUTE = 60 * 1000;
+// Each event type has its own window, so a disconnect right after a logon alert still gets through
+const THROTTLE_MS: Record<FlightEventType, number> = {
+  'logon': 10 * MINUTE,
+  'disconnect': 10 * MINUTE,
+  'takeoff': 10 * MINUTE,
+  'landing': 10 * MINUTE,
+  'top-of-descent': 10 * MINUTE,
+  'emergency-squawk': 5 * MINUTE,
+  'fir-crossing': MINUTE,
+  'frequency-change': MINUTE
+};
+
+const lastNotified = new Map<string, number>();
+
+const isOnline = (status: WatchlistStatus): boolean => status.state === 'on-ground' || status.state === 'airborne';
+// The takeoff phase starts with the roll, so a flight only counts as in the air once it is past it
+const isFlying = (status: WatchlistStatus): boolean => status.state === 'airborne' && status.phase !== 'takeoff';
+const isDescending = (status: WatchlistStatus): boolean =>
+  status.phase === 'descent' || status.phase === 'approach';
+
+export function detectFlightEvents(previous: WatchlistStatus, next: WatchlistStatus): FlightEvent[] {
+  const events: FlightEvent[] = [];
+
+  if (!isOnline(previous) && isOnline(next)) {
+    events.push({ type: 'logon', message: `Logged on as ${next.callsign}` });
+  }
+  if (isOnline(previous) && !isOnline(next)) {
+    events.push({ type: 'disconnect', message: `${previous.callsign} disconnected` });
+  }
+
+  // Everything below compares two live snapshots; a reconnect starts over
+  if (!isOnline(previous) || !isOnline(next)) {
+    return events;
+  }
+
+  if (!isFlying(previous) && isFlying(next)) {
+    events.push({ type: 'takeoff', message: `Took off${next.departure ? ` from ${next.departure}` : ''}` });
+  }
+  if (isFlying(previous) && next.state === 'on-ground') {
+    events.push({ type: 'landing', message: `Landed${next.arrival ? ` at ${next.arrival}` : ''}` });
+  }
+  if (next.state === 'airborne' && !isDescending(previous) && isDescending(next)) {
+    events.push({ type: 'top-of-descent', message: `Started descent${next.arrival ? ` into ${next.arrival}` : ''}` });
+  }
+
+  if (previous.currentFIR && next.currentFIR && previous.currentFIR.id !== next.currentFIR.id) {
+    events.push({ type: 'fir-crossing', message: `Entered ${next.currentFIR.name} (${next.currentFIR.id})` });
+  }
+
+  const squawk = next.transponder;
+  if (squawk && isEmergencySquawk(squawk) && squawk !== previous.transponder) {
+    events.push({ type: 'emergency-squawk', message: `Squawking ${squawk} (${EMERGENCY_SQUAWKS[squawk]})` });
+  }
+
+  // The first sample with a frequency is not a change
+  if (previous.activeFrequency && next.activeFrequency && next.activeFrequency !== previous.activeFrequency) {
+    events.push({
+      type: 'frequency-change',
+      message: `Tuned ${next.activeFrequency} (was ${previous.activeFrequency})`
+    });
+  }
+
+  return events;
+}
+
+// True when this flight hasn't raised the same kind of alert recently; records the alert
+export function shouldNotify(flightKey: string, type: FlightEventType, now: number = Date.now()): boolean {
+  const key = `${flightKey}:${type}`;
+  const last = lastNotified.get(key);
+  if (last !== undefined && now - last < THROTTLE_MS[type]) {
+    return false;
+  }
+  lastNotified.set(key, now);
+  return true;
+}
+
+export function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+export function showFlightNotification(title: string, event: FlightEvent): void {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body: event.message, tag: `${title}:${event.type}` });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('Could not show notification:', error);
+  }
+}
@@ -0,0 +1,217 @@
+import { FlightPhase, FlightPhaseInfo } from '../types/vatsim';
+
+// Flight phase state machine fed with one observation per feed update.
+// A new phase must be seen on consecutive updates before it is accepted,
+// so a single noisy sample (a brief level-off, a gust in groundspeed)
+// doesn't make the badge flicker.
+
+export interface PhaseObservation {
+  timestamp: string; // the pilot's last_updated
+  altitude: number;
+  groundspeed: number;
+  distanceToDeparture: number | null; // nautical miles, null when the airport is unknown
+  distanceToArrival: number | null;
+}
+
+export interface FlightPhaseState extends FlightPhaseInfo {
+  candidate: FlightPhase | null;
+  candidateCount: number;
+  lastTimestamp: string;
+  lastAltitude: number;
+  verticalRate: number; // ft/min between the last two observations
+  groundElevation: number | null; // altitude last seen while on the ground
+  cruiseAltitude: number | null; // set once the flight has levelled off in cruise
+}
+
+export const GROUND_PHASES: FlightPhase[] = ['preflight', 'taxi-out', 'landed', 'taxi-in', 'arrived'];
+
+// Speeds in knots
+const TAXI_SPEED = 3;
+const TAKEOFF_SPEED = 40;
+const ROLLOUT_END_SPEED = 30;
+const TOUCHDOWN_SPEED = 80;
+
+// Vertical rates in ft/min; between LEVEL and CHANGE the current phase is kept
+const LEVEL_RATE = 200;
+const CHANGE_RATE = 500;
+
+const TAKEOFF_HEIGHT = 1500; // ft above the departure field
+const TAKEOFF_DISTANCE = 5; // nm from the departure airport
+const APPROACH_DISTANCE = 25; // nm from the arrival airport
+const TOUCHDOWN_DISTANCE = 5;
+const CRUISE_MIN_ALTITUDE = 10000;
+// Descents this far from the destination and close to cruise level are step descents
+const STEP_DESCENT_MIN_DISTANCE = 150;
+const STEP_DESCENT_MAX_DROP = 4000;
+
+// Phases that follow from a single observation
+const IMMEDIATE_PHASES: FlightPhase[] = ['takeoff', 'landed'];
+const CONFIRMATION_COUNT = 2;
+
+// Best guess for a flight we have never seen before
+function initialPhase(observation: PhaseObservation): FlightPhase {
+  const { altitude, groundspeed, distanceToDeparture, distanceToArrival } = observation;
+
+  if (groundspeed < TAKEOFF_SPEED) {
+    const nearArrival = distanceToArrival !== null &&
+      (distanceToDeparture === null || distanceToArrival < distanceToDeparture);
+    if (nearArrival) {
+      return groundspeed < TAXI_SPEED ? 'arrived' : 'taxi-in';
+    }
+    return groundspeed < TAXI_SPEED ? 'preflight' : 'taxi-out';
+  }
+
+  if (altitude >= CRUISE_MIN_ALTITUDE) return 'cruise';
+  if (distanceToArrival !== null && distanceToArrival <= APPROACH_DISTANCE) return 'approach';
+  if (distanceToArrival !== null && distanceToDeparture !== null && distanceToArrival < distanceToDeparture) {
+    return 'descent';
+  }
+  return 'climb';
+}
+
+// The phase this observation points to, or null to stay in the current phase
+function observedPhase(state: FlightPhaseState, observation: PhaseObservation, verticalRate: number): FlightPhase | null {
+  const { altitude, groundspeed, distanceToDeparture, distanceToArrival } = observation;
+  const phase = state.phase;
+
+  switch (phase) {
+    case 'preflight':
+      if (groundspeed >= TAKEOFF_SPEED) return 'takeoff';
+      return groundspeed >= TAXI_SPEED ? 'taxi-out' : null;
+
+    case 'taxi-out':
+      return groundspeed >= TAKEOFF_SPEED ? 'takeoff' : null;
+
+    case 'takeoff': {
+      if (groundspeed < TAXI_SPEED) return 'taxi-out'; // rejected takeoff
+      const height = state.groundElevation !== null ? altitude - state.groundElevation : null;
+      const clearOfField = (height !== null && height >= TAKEOFF_HEIGHT) ||
+        (distanceToDeparture !== null && distanceToDeparture > TAKEOFF_DISTANCE);
+      return clearOfField ? 'climb' : null;
+    }
+
+    case 'landed':
+      return groundspeed < ROLLOUT_END_SPEED ? 'taxi-in' : null;
+
+    case 'taxi-in':
+      if (groundspeed >= TAKEOFF_SPEED) return 'takeoff'; // touch and go or a new departure
+      return groundspeed < TAXI_SPEED ? 'arrived' : null;
+
+    case 'arrived':
+      if (groundspeed >= TAKEOFF_SPEED) return 'takeoff';
+      return groundspeed >= TAXI_SPEED ? 'taxi-in' : null;
+  }
+
+  // Airborne phases
+  const nearArrival = distanceToArrival !== null && distanceToArrival <= APPROACH_DISTANCE;
+  const touchdownZone = distanceToArrival === null || distanceToArrival <= TOUCHDOWN_DISTANCE;
+  if (groundspeed < TOUCHDOWN_SPEED && Math.abs(verticalRate) < LEVEL_RATE && touchdownZone) {
+    return 'landed';
+  }
+
+  if (nearArrival && (verticalRate < -LEVEL_RATE || phase === 'descent' || phase === 'approach')) {
+    return 'approach';
+  }
+
+  if (verticalRate > CHANGE_RATE) {
+    return state.cruiseAltitude !== null ? 'step-climb' : 'climb';
+  }
+
+  if (verticalRate < -CHANGE_RATE) {
+    const stepDescent = state.cruiseAltitude !== null &&
+      altitude >= state.cruiseAltitude - STEP_DESCENT_MAX_DROP &&
+      (distanceToArrival === null || distanceToArrival > STEP_DESCENT_MIN_DISTANCE);
+    return stepDescent ? 'step-descent' : 'descent';
+  }
+
+  if (Math.abs(verticalRate) <= LEVEL_RATE) {
+    // Levelling off after a climb or step is cruise; level segments in a descent are not
+    if ((phase === 'climb' || phase === 'step-climb' || phase === 'step-descent') && altitude >= CRUISE_MIN_ALTITUDE) {
+      return 'cruise';
+    }
+  }
+
+  return null;
+}
+
+export function advanceFlightPhase(state: FlightPhaseState | null, observation: PhaseObservation): FlightPhaseState {
+  if (!state) {
+    const phase = initialPhase(observation);
+    return {
+      phase,
+      since: observation.timestamp,
+      transitions: [{ phase, at: observation.timestamp }],
+      candidate: null,
+      candidateCount: 0,
+      lastTimestamp: observation.timestamp,
+      lastAltitude: observation.altitude,
+      verticalRate: 0,
+      groundElevation: GROUND_PHASES.includes(phase) ? observation.altitude : null,
+      cruiseAltitude: phase === 'cruise' ? observation.altitude : null
+    };
+  }
+
+  // The same feed update seen again carries no new information
+  const elapsedMinutes = (new Date(observation.timestamp).getTime() - new Date(state.lastTimestamp).getTime()) / 60000;
+  if (!(elapsedMinutes > 0)) {
+    return state;
+  }
+
+  const verticalRate = (observation.altitude - state.lastAltitude) / elapsedMinutes;
+  const observed = observedPhase(state, observation, verticalRate);
+
+  let next: FlightPhaseState = {
+    ...state,
+    lastTimestamp: observation.timestamp,
+    lastAltitude: observation.altitude,
+    verticalRate: Math.round(verticalRate)
+  };
+
+  if (observed && observed !== state.phase) {
+    const candidateCount = observed === state.candidate ? state.candidateCount + 1 : 1;
+    const required = IMMEDIATE_PHASES.includes(observed) ? 1 : CONFIRMATION_COUNT;
+
+    if (candidateCount >= required) {
+      next = {
+        ...next,
+        phase: observed,
+        since: observation.timestamp,
+        transitions: [...state.transitions, { phase: observed, at: observation.timestamp }],
+        candidate: null,
+        candidateCount: 0
+      };
+    } else {
+      next = { ...next, candidate: observed, candidateCount };
+    }
+  } else {
+    next = { ...next, candidate: null, candidateCount: 0 };
+  }
+
+  if (GROUND_PHASES.includes(next.phase)) {
+    next.groundElevation = observation.altitude;
+  }
+  if (next.phase === 'cruise') {
+    next.cruiseAltitude = observation.altitude;
+  }
+
+  return next;
+}
+
+export function toFlightPhaseInfo(state: FlightPhaseState): FlightPhaseInfo {
+  return { phase: state.phase, since: state.since, transitions: state.transitions };
+}
+
+export const FLIGHT_PHASE_LABELS: Record<FlightPhase, string> = {
+  'preflight': 'Preflight',
+  'taxi-out': 'Taxi out',
+  'takeoff': 'Takeoff',
+  'climb': 'Climb',
+  'cruise': 'Cruise',
+  'step-climb': 'Step climb',
+  'step-descent': 'Step descent',
+  'descent': 'Descent',
+  'approach': 'Approach',
+  'landed': 'Landed',
+  'taxi-in': 'Taxi in',
+  'arrived': 'Arrived'
+};
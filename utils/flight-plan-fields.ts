@@ -0,0 +1,72 @@
+// Helpers for the free-text numeric fields of a VATSIM flight plan
+
+// Filed cruise altitude in feet: "35000", "FL350", "F350" and bare "350" (a flight level)
+export function parseFiledAltitude(altitude: string): number | null {
+  const value = altitude.trim().toUpperCase();
+
+  const flightLevel = value.match(/^F(?:L)?(\d{2,3})$/);
+  if (flightLevel) {
+    return parseInt(flightLevel[1], 10) * 100;
+  }
+
+  const numeric = value.match(/^A?(\d+)$/);
+  if (numeric) {
+    const feet = parseInt(numeric[1], 10);
+    // Pilots sometimes file a flight level without the FL prefix
+    return feet < 1000 ? feet * 100 : feet;
+  }
+
+  return null;
+}
+
+// Filed duration in minutes: enroute_time and fuel_time are "HHMM", e.g. "0215"
+export function parseFiledDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):?(\d{2})$/);
+  if (!match) return null;
+
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return minutes > 0 ? minutes : null;
+}
+
+// Filed true airspeed in knots: "450", "N0450", or a Mach number like "M079"
+export function parseCruiseSpeed(value: string): number | null {
+  const text = value.trim().toUpperCase();
+
+  const mach = text.match(/^M(\d{3})$/);
+  if (mach) {
+    // Roughly 573 kt per Mach 1.0 at typical cruise levels
+    return Math.round(parseInt(mach[1], 10) / 100 * 573);
+  }
+
+  const knots = text.match(/^N?(\d{2,4})$/);
+  if (knots) {
+    const speed = parseInt(knots[1], 10);
+    return speed > 0 ? speed : null;
+  }
+
+  return null;
+}
+
+// Filed "HHMM" UTC time as a date: the occurrence closest to the reference
+// time, since a flight plan filed at 23:50 may well depart at 0030 the next day
+export function parseFiledTime(value: string, reference: Date): Date | null {
+  const match = value.trim().match(/^(\d{2}):?(\d{2})$/);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  const candidate = new Date(Date.UTC(
+    reference.getUTCFullYear(),
+    reference.getUTCMonth(),
+    reference.getUTCDate(),
+    hours,
+    minutes
+  ));
+  const day = 24 * 60 * 60 * 1000;
+  const offset = candidate.getTime() - reference.getTime();
+  if (offset > day / 2) return new Date(candidate.getTime() - day);
+  if (offset < -day / 2) return new Date(candidate.getTime() + day);
+  return candidate;
+}
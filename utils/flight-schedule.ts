@@ -0,0 +1,97 @@
+import { AircraftTypeInfo, EtaEstimate, FlightPhaseInfo, FlightSchedule, ScheduleStatus, VatsimPilot } from '../types/vatsim';
+import { parseFiledDuration, parseFiledTime } from './flight-plan-fields';
+import { TAXI_OUT_MINUTES } from './eta';
+
+// Schedule view of a flight: filed off-block, enroute and fuel times turned
+// into UTC times and compared against the takeoff/landing seen by the phase tracker.
+
+const MINUTE = 60 * 1000;
+// Within this many minutes of schedule counts as on time
+const ON_TIME_TOLERANCE = 15;
+// Final reserve fuel: 30 minutes for turbine aircraft, 45 for piston
+const TURBINE_RESERVE_MINUTES = 30;
+const PISTON_RESERVE_MINUTES = 45;
+
+function lastTransitionAt(phase: FlightPhaseInfo, name: FlightPhaseInfo['phase']): Date | null {
+  const transition = phase.transitions.filter(item => item.phase === name).pop();
+  return transition ? new Date(transition.at) : null;
+}
+
+function minutesBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MINUTE);
+}
+
+export function buildFlightSchedule(
+  pilot: VatsimPilot,
+  phase: FlightPhaseInfo,
+  eta: EtaEstimate | null,
+  aircraft: AircraftTypeInfo | null,
+  now: Date = new Date()
+): FlightSchedule | null {
+  const flightPlan = pilot.flight_plan;
+  if (!flightPlan) return null;
+
+  const offBlock = parseFiledTime(flightPlan.deptime, new Date(pilot.logon_time));
+  const enrouteMinutes = parseFiledDuration(flightPlan.enroute_time);
+  const fuelMinutes = parseFiledDuration(flightPlan.fuel_time);
+
+  const scheduledTakeoff = offBlock ? new Date(offBlock.getTime() + TAXI_OUT_MINUTES * MINUTE) : null;
+  const scheduledArrival = scheduledTakeoff && enrouteMinutes !== null
+    ? new Date(scheduledTakeoff.getTime() + enrouteMinutes * MINUTE)
+    : null;
+
+  const actualTakeoff = lastTransitionAt(phase, 'takeoff');
+  const landing = lastTransitionAt(phase, 'landed');
+  const actualLanding = landing && actualTakeoff && landing > actualTakeoff ? landing : null;
+
+  // Late takeoffs count as delayed as soon as the scheduled time has passed.
+  // Flights first seen airborne have no known takeoff time.
+  const awaitingTakeoff = phase.phase === 'preflight' || phase.phase === 'taxi-out';
+  let departureDelay: number | null = null;
+  if (scheduledTakeoff && actualTakeoff) {
+    departureDelay = minutesBetween(scheduledTakeoff, actualTakeoff);
+  } else if (scheduledTakeoff && awaitingTakeoff && now > scheduledTakeoff) {
+    departureDelay = minutesBetween(scheduledTakeoff, now);
+  }
+
+  const expectedArrival = actualLanding ?? (eta ? new Date(eta.arrivalTime) : null);
+  const arrivalDelay = scheduledArrival && expectedArrival ? minutesBetween(scheduledArrival, expectedArrival) : null;
+
+  let status: ScheduleStatus = 'unknown';
+  const delay = arrivalDelay ?? departureDelay;
+  if (delay !== null) {
+    status = delay > ON_TIME_TOLERANCE ? 'delayed' : delay < -ON_TIME_TOLERANCE ? 'early' : 'on-time';
+  } else if (scheduledTakeoff) {
+    status = 'scheduled';
+  }
+
+  // Fuel is burnt from off-block: taxi time before the actual takeoff, the filed
+  // time for flights we only saw airborne, or now for a late departure
+  const fuelStart = actualTakeoff
+    ? new Date(actualTakeoff.getTime() - TAXI_OUT_MINUTES * MINUTE)
+    : offBlock && (offBlock > now || !awaitingTakeoff) ? offBlock : now;
+  const fuelExhaustion = fuelMinutes !== null ? new Date(fuelStart.getTime() + fuelMinutes * MINUTE) : null;
+  const fuelMargin = fuelExhaustion && expectedArrival ? minutesBetween(expectedArrival, fuelExhaustion) : null;
+  const reserveMinutes = aircraft?.engineType === 'piston' ? PISTON_RESERVE_MINUTES : TURBINE_RESERVE_MINUTES;
+
+  const warnings: string[] = [];
+  if (fuelMargin !== null && fuelMargin < 0) {
+    warnings.push(`Estimated arrival is ${-fuelMargin} min after the filed fuel endurance runs out`);
+  } else if (fuelMargin !== null && fuelMargin < reserveMinutes) {
+    warnings.push(`Only ${fuelMargin} min of fuel at arrival, below the ${reserveMinutes} min reserve`);
+  }
+
+  return {
+    scheduledOffBlock: offBlock ? offBlock.toISOString() : null,
+    scheduledArrival: scheduledArrival ? scheduledArrival.toISOString() : null,
+    fuelExhaustion: fuelExhaustion ? fuelExhaustion.toISOString() : null,
+    actualTakeoff: actualTakeoff ? actualTakeoff.toISOString() : null,
+    actualLanding: actualLanding ? actualLanding.toISOString() : null,
+    departureDelay,
+    arrivalDelay,
+    status,
+    fuelMargin,
+    reserveMinutes,
+    warnings
+  };
+}
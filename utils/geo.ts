@@ -0,0 +1,50 @@
+// Great-circle helpers shared by the map, ETA and FIR code
+
+const EARTH_RADIUS_NM = 3440.065;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Distance between two points in nautical miles (haversine)
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+            Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_NM * c;
+}
+
+// Initial bearing from the first point to the second, normalized to 0-360
+export function calculateBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLon = toRadians(lon2 - lon1);
+  const lat1Rad = toRadians(lat1);
+  const lat2Rad = toRadians(lat2);
+  
+  const y = Math.sin(dLon) * Math.cos(lat2Rad);
+  const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) - Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(dLon);
+  
+  const bearing = Math.atan2(y, x) * 180 / Math.PI;
+  return (bearing + 360) % 360;
+}
+
+// Point a fraction of the way along the great circle between two points
+export function intermediatePoint(lat1: number, lon1: number, lat2: number, lon2: number, fraction: number): [number, number] {
+  const phi1 = toRadians(lat1);
+  const lambda1 = toRadians(lon1);
+  const phi2 = toRadians(lat2);
+  const lambda2 = toRadians(lon2);
+  const delta = calculateDistance(lat1, lon1, lat2, lon2) / EARTH_RADIUS_NM;
+  if (delta === 0) return [lat1, lon1];
+
+  const a = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+  const b = Math.sin(fraction * delta) / Math.sin(delta);
+  const x = a * Math.cos(phi1) * Math.cos(lambda1) + b * Math.cos(phi2) * Math.cos(lambda2);
+  const y = a * Math.cos(phi1) * Math.sin(lambda1) + b * Math.cos(phi2) * Math.sin(lambda2);
+  const z = a * Math.sin(phi1) + b * Math.sin(phi2);
+
+  return [
+    Math.atan2(z, Math.sqrt(x * x + y * y)) * 180 / Math.PI,
+    Math.atan2(y, x) * 180 / Math.PI
+  ];
+}
@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { buildNavDatabase, emptyNavDatabase, NavDatabase } from './navdata';
+
+// Server-side loader for the local navdata files (see NAVDATA.md).
+// The files are large and licensed separately, so they are not part of the repo.
+const NAVDATA_DIR = process.env.NAVDATA_DIR || path.join(process.cwd(), 'navdata');
+
+let navDatabasePromise: Promise<NavDatabase> | null = null;
+
+async function readNavdataFile(fileName: string): Promise<string> {
+  try {
+    return await fs.readFile(path.join(NAVDATA_DIR, fileName), 'utf8');
+  } catch (error) {
+    console.warn(`Navdata file ${fileName} not available in ${NAVDATA_DIR}; routes will be drawn without it`);
+    return '';
+  }
+}
+
+// Load and index the navdata once per server process
+export function getNavDatabase(): Promise<NavDatabase> {
+  if (!navDatabasePromise) {
+    navDatabasePromise = Promise.all([
+      readNavdataFile('earth_fix.dat'),
+      readNavdataFile('earth_nav.dat'),
+      readNavdataFile('earth_awy.dat')
+    ])
+      .then(([fixText, navText, airwayText]) => buildNavDatabase(fixText, navText, airwayText))
+      .catch(error => {
+        console.error('Error building navdata database:', error);
+        return emptyNavDatabase();
+      });
+  }
+  return navDatabasePromise;
+}
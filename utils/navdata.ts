@@ -0,0 +1,214 @@
+// Navigation database built from X-Plane style navdata files:
+//   earth_fix.dat - named waypoints (1101 format: lat lon ident terminal region type)
+//   earth_nav.dat - VOR/NDB/DME navaids (1150 format: code lat lon elev freq range magvar ident terminal region name)
+//   earth_awy.dat - airway segments (1100 format: ident region type ident region type direction level base top names)
+// Parsing is pure so the same code can run wherever the files are read from.
+
+export type NavPointKind = 'fix' | 'vor' | 'ndb' | 'dme';
+
+export interface NavPoint {
+  ident: string;
+  region: string;
+  kind: NavPointKind;
+  latitude: number;
+  longitude: number;
+  name?: string;
+}
+
+export interface NavDatabase {
+  // All points sharing an identifier, e.g. every "ALB" in the world
+  points: Map<string, NavPoint[]>;
+  // Airway name -> node key -> neighbouring node keys
+  airways: Map<string, Map<string, Set<string>>>;
+  // Node key -> point, for walking airways
+  nodes: Map<string, NavPoint>;
+}
+
+// Airway files reference points by ident, ICAO region and these type codes
+const KIND_CODES: Record<NavPointKind, string> = {
+  fix: '11',
+  ndb: '2',
+  vor: '3',
+  dme: '13'
+};
+
+const NAV_ROW_KINDS: Record<string, NavPointKind> = {
+  '2': 'ndb',
+  '3': 'vor',
+  '13': 'dme'
+};
+
+export function navPointKey(ident: string, region: string, typeCode: string): string {
+  return `${ident}|${region}|${typeCode}`;
+}
+
+function keyForPoint(point: NavPoint): string {
+  return navPointKey(point.ident, point.region, KIND_CODES[point.kind]);
+}
+
+// Data rows start after the "I"/"A" line and the version line, and the file ends with "99"
+function dataLines(text: string): string[][] {
+  return text
+    .split('\n')
+    .slice(2)
+    .map(line => line.trim())
+    .filter(line => line && line !== '99')
+    .map(line => line.split(/\s+/));
+}
+
+export function parseFixFile(text: string): NavPoint[] {
+  const points: NavPoint[] = [];
+
+  for (const parts of dataLines(text)) {
+    if (parts.length < 3) continue;
+
+    const latitude = parseFloat(parts[0]);
+    const longitude = parseFloat(parts[1]);
+    if (isNaN(latitude) || isNaN(longitude)) continue;
+
+    points.push({
+      ident: parts[2],
+      region: parts[4] || '',
+      kind: 'fix',
+      latitude,
+      longitude
+    });
+  }
+
+  return points;
+}
+
+export function parseNavFile(text: string): NavPoint[] {
+  const points: NavPoint[] = [];
+
+  for (const parts of dataLines(text)) {
+    // ILS, markers and other approach aids are not used for enroute routing
+    const kind = NAV_ROW_KINDS[parts[0]];
+    if (!kind || parts.length < 11) continue;
+
+    const latitude = parseFloat(parts[1]);
+    const longitude = parseFloat(parts[2]);
+    if (isNaN(latitude) || isNaN(longitude)) continue;
+
+    points.push({
+      ident: parts[7],
+      region: parts[9],
+      kind,
+      latitude,
+      longitude,
+      name: parts.slice(10).join(' ')
+    });
+  }
+
+  return points;
+}
+
+export interface AirwaySegment {
+  from: string; // node key
+  to: string;
+  direction: 'N' | 'F' | 'B';
+  names: string[];
+}
+
+export function parseAirwayFile(text: string): AirwaySegment[] {
+  const segments: AirwaySegment[] = [];
+
+  for (const parts of dataLines(text)) {
+    if (parts.length < 11) continue;
+
+    segments.push({
+      from: navPointKey(parts[0], parts[1], parts[2]),
+      to: navPointKey(parts[3], parts[4], parts[5]),
+      direction: parts[6] as AirwaySegment['direction'],
+      names: parts[10].split('-')
+    });
+  }
+
+  return segments;
+}
+
+export function buildNavDatabase(fixText: string, navText: string, airwayText: string): NavDatabase {
+  const points = new Map<string, NavPoint[]>();
+  const nodes = new Map<string, NavPoint>();
+
+  for (const point of [...parseFixFile(fixText), ...parseNavFile(navText)]) {
+    const existing = points.get(point.ident);
+    if (existing) {
+      existing.push(point);
+    } else {
+      points.set(point.ident, [point]);
+    }
+    nodes.set(keyForPoint(point), point);
+  }
+
+  const airways = new Map<string, Map<string, Set<string>>>();
+  const link = (graph: Map<string, Set<string>>, a: string, b: string) => {
+    const neighbours = graph.get(a);
+    if (neighbours) {
+      neighbours.add(b);
+    } else {
+      graph.set(a, new Set([b]));
+    }
+  };
+
+  for (const segment of parseAirwayFile(airwayText)) {
+    for (const name of segment.names) {
+      let graph = airways.get(name);
+      if (!graph) {
+        graph = new Map();
+        airways.set(name, graph);
+      }
+      // One-way restrictions are ignored: we only need the geometry of the filed route
+      link(graph, segment.from, segment.to);
+      link(graph, segment.to, segment.from);
+    }
+  }
+
+  return { points, airways, nodes };
+}
+
+export function emptyNavDatabase(): NavDatabase {
+  return { points: new Map(), airways: new Map(), nodes: new Map() };
+}
+
+export function isOnAirway(db: NavDatabase, airway: string, point: NavPoint): boolean {
+  return db.airways.get(airway)?.has(keyForPoint(point)) ?? false;
+}
+
+// Points along an airway from entry to exit (excluding the entry, including the exit)
+export function expandAirway(db: NavDatabase, airway: string, entry: NavPoint, exit: NavPoint): NavPoint[] | null {
+  const graph = db.airways.get(airway);
+  const start = keyForPoint(entry);
+  const goal = keyForPoint(exit);
+  if (!graph || !graph.has(start) || !graph.has(goal)) {
+    return null;
+  }
+
+  // Breadth-first search; airways are chains so this just walks in the right direction
+  const previous = new Map<string, string | null>([[start, null]]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === goal) break;
+
+    const neighbours = Array.from(graph.get(current) ?? []);
+    for (const next of neighbours) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  if (!previous.has(goal)) {
+    return null;
+  }
+
+  const path: NavPoint[] = [];
+  for (let key: string | null = goal; key && key !== start; key = previous.get(key) ?? null) {
+    const node = db.nodes.get(key);
+    if (!node) return null;
+    path.unshift(node);
+  }
+  return path;
+}
@@ -0,0 +1,544 @@
+import {
+  AirportAtcStatus,
+  ControllerCoverage,
+  CurrentFIR,
+  DecodedRemarks,
+  EtaEstimate,
+  FIRSequence,
+  FlightPhaseInfo,
+  FlightSchedule,
+  PilotEnrichment,
+  PilotLookupResult,
+  PrefileEnrichment,
+  PrefileLookupResult,
+  RadioStatus,
+  ResolvedRoute,
+  VatsimAirport,
+  VatsimController,
+  VatsimData,
+  VatsimFlightPlan,
+  VatsimPilot,
+  VatsimPrefile,
+  VatsimTransceiver,
+  WatchlistEntry,
+  WatchlistLookupResult,
+  WatchlistStatus
+} from '../types/vatsim';
+import { getTransceivers, getVatsimSnapshot, onSnapshot, VatsimFeedSnapshot } from './vatsim-feed';
+import { getServerAirportCodes, getServerAirports, getServerFIRNames, getServerFIRs, getServerUIRBoundaries, getServerUIRs, readBoundaries } from './vatspy-files';
+import { VatspyAirport, VatspyAirportCode } from './vatspy-parser';
+import { detectFIR } from './fir-index';
+import { resolveCoverage, staffedBoundaries } from './controller-coverage';
+import { resolveAirportAtc } from './airport-atc';
+import { estimateArrival, TAXI_OUT_MINUTES } from './eta';
+import { predictFIRSequence } from './fir-sequence';
+import { formatFrequency, resolveRadioStatus } from './radio';
+import { parseRoute } from './route-parser';
+import { resolveRoute } from './route-resolver';
+import { getNavDatabase } from './navdata-files';
+import { decodeRemarks } from './remarks-decoder';
+import { decodeEquipment } from './aircraft-equipment';
+import { advanceFlightPhase, FlightPhaseState, GROUND_PHASES, toFlightPhaseInfo } from './flight-phase';
+import { calculateDistance } from './geo';
+import { getAircraftType } from './aircraft-types';
+import { buildFlightSchedule } from './flight-schedule';
+import { DEFAULT_DUPLICATE_RADIUS_NM, normalizeSquawk, validateSquawk } from './squawk';
+
+// Server-side lookup of a single pilot in the shared feed snapshot,
+// enriched with everything the flight view needs so the browser never
+// has to download the whole network.
+
+// Trim and upper-case the identifiers the UI matches on
+function normalizeFlightPlan(flightPlan: VatsimFlightPlan): VatsimFlightPlan {
+  return {
+    ...flightPlan,
+    departure: (flightPlan.departure || '').trim().toUpperCase(),
+    arrival: (flightPlan.arrival || '').trim().toUpperCase(),
+    alternate: (flightPlan.alternate || '').trim().toUpperCase(),
+    route: (flightPlan.route || '').trim(),
+    remarks: (flightPlan.remarks || '').trim()
+  };
+}
+
+export function normalizePilot(raw: VatsimPilot): VatsimPilot {
+  const pilot: VatsimPilot = {
+    ...raw,
+    callsign: raw.callsign.trim().toUpperCase(),
+    transponder: normalizeSquawk(raw.transponder)
+  };
+
+  if (raw.flight_plan) {
+    pilot.flight_plan = normalizeFlightPlan(raw.flight_plan);
+  }
+
+  return pilot;
+}
+
+export function normalizePrefile(raw: VatsimPrefile): VatsimPrefile {
+  return {
+    ...raw,
+    callsign: raw.callsign.trim().toUpperCase(),
+    flight_plan: normalizeFlightPlan(raw.flight_plan)
+  };
+}
+
+function airportFrom(icao: string | undefined, airports: Map<string, VatspyAirport>): VatsimAirport | null {
+  if (!icao) return null;
+
+  const airport = airports.get(icao);
+  if (!airport) {
+    return { icao, name: icao };
+  }
+
+  return {
+    icao: airport.icao,
+    name: airport.name,
+    latitude: airport.latitude,
+    longitude: airport.longitude
+  };
+}
+
+async function resolveAirport(icao: string | undefined): Promise<VatsimAirport | null> {
+  return icao ? airportFrom(icao, await getServerAirports()) : null;
+}
+
+// The pilot's transceivers, COM1 first; resolveRadio joins them with the stations on frequency
+async function resolveTransceivers(callsign: string): Promise<VatsimTransceiver[]> {
+  try {
+    const transceivers = await getTransceivers();
+    const entry = transceivers.find(item =>
+      item.callsign.toUpperCase() === callsign.toUpperCase()
+    );
+
+    if (entry) {
+      return entry.transceivers;
+    }
+  } catch (error) {
+    console.error('Error resolving active frequency:', error);
+  }
+
+  return [];
+}
+
+// What the pilot's radios are tuned to, checked against the station controlling their position
+async function resolveRadio(
+  transceivers: VatsimTransceiver[],
+  data: VatsimData,
+  controllingStation: string | null,
+  airborne: boolean
+): Promise<RadioStatus> {
+  const expected = controllingStation
+    ? data.controllers.find(controller => controller.callsign === controllingStation) ?? null
+    : null;
+  try {
+    const [firs, uirs, airportCodes, airports] = await Promise.all([
+      getServerFIRs(), getServerUIRs(), getServerAirportCodes(), getServerAirports()
+    ]);
+    return resolveRadioStatus(transceivers, data.controllers, data.atis, { firs, uirs, airportCodes, airports }, { expected, airborne });
+  } catch (error) {
+    console.error('Error resolving tuned stations:', error);
+    return { radios: [], expected: null, notOnExpected: false };
+  }
+}
+
+// Resolved routes only change when the pilot amends their flight plan; trackPhases
+// drops them once the flight is gone from the feed
+const routeCache = new Map<string, { key: string; route: ResolvedRoute }>();
+
+async function resolveFiledRoute(callsign: string, flightPlan: VatsimFlightPlan | undefined): Promise<ResolvedRoute | null> {
+  if (!flightPlan || !flightPlan.route) return null;
+
+  const cacheKey = `${flightPlan.revision_id}|${flightPlan.departure}|${flightPlan.arrival}|${flightPlan.route}`;
+  const cached = routeCache.get(callsign);
+  if (cached && cached.key === cacheKey) {
+    return cached.route;
+  }
+
+  try {
+    const [navDatabase, airports] = await Promise.all([getNavDatabase(), getServerAirports()]);
+    const parsed = parseRoute(flightPlan.route, {
+      departure: flightPlan.departure,
+      arrival: flightPlan.arrival
+    });
+    const route = resolveRoute(parsed.tokens, navDatabase, airports, flightPlan.departure, flightPlan.arrival);
+    routeCache.set(callsign, { key: cacheKey, route });
+    return route;
+  } catch (error) {
+    console.error('Error resolving filed route:', error);
+    return null;
+  }
+}
+
+// Phase state per connected flight, advanced on every feed update by trackPhases
+// so takeoff and landing times are right even for flights nobody was watching
+const phaseStates = new Map<string, { logonTime: string; state: FlightPhaseState }>();
+
+function distanceTo(pilot: VatsimPilot, airport: VatsimAirport | null): number | null {
+  if (!airport || airport.latitude === undefined || airport.longitude === undefined) return null;
+  return calculateDistance(pilot.latitude, pilot.longitude, airport.latitude, airport.longitude);
+}
+
+function trackFlightPhase(pilot: VatsimPilot, departure: VatsimAirport | null, arrival: VatsimAirport | null): FlightPhaseInfo {
+  const tracked = phaseStates.get(pilot.callsign);
+  const previous = tracked && tracked.logonTime === pilot.logon_time ? tracked.state : null;
+
+  const state = advanceFlightPhase(previous, {
+    timestamp: pilot.last_updated,
+    altitude: pilot.altitude,
+    groundspeed: pilot.groundspeed,
+    distanceToDeparture: distanceTo(pilot, departure),
+    distanceToArrival: distanceTo(pilot, arrival)
+  });
+  phaseStates.set(pilot.callsign, { logonTime: pilot.logon_time, state });
+
+  return toFlightPhaseInfo(state);
+}
+
+// Advance every flight in a feed update and forget the ones that have disconnected
+async function trackPhases(snapshot: VatsimFeedSnapshot): Promise<void> {
+  const airports = await getServerAirports();
+  const online = new Set<string>();
+  for (const raw of snapshot.data.pilots) {
+    const pilot = normalizePilot(raw);
+    online.add(pilot.callsign);
+    trackFlightPhase(pilot, airportFrom(pilot.flight_plan?.departure, airports), airportFrom(pilot.flight_plan?.arrival, airports));
+  }
+
+  Array.from(phaseStates.keys()).forEach(callsign => {
+    if (!online.has(callsign)) phaseStates.delete(callsign);
+  });
+  // Routes are also resolved for prefiled flight plans
+  const filed = new Set(snapshot.data.prefiles.map(prefile => prefile.callsign.trim().toUpperCase()));
+  Array.from(routeCache.keys()).forEach(callsign => {
+    if (!online.has(callsign) && !filed.has(callsign)) routeCache.delete(callsign);
+  });
+}
+
+let trackingPhases = false;
+
+// Follow the feed from the first lookup on; the poller decides how long that lasts
+function startPhaseTracking(): void {
+  if (trackingPhases) return;
+  trackingPhases = true;
+  onSnapshot(snapshot => {
+    trackPhases(snapshot).catch(error => console.error('Error tracking flight phases:', error));
+  });
+}
+
+// Radius for the duplicate squawk check, e.g. SQUAWK_DUPLICATE_RADIUS_NM=30
+const DUPLICATE_SQUAWK_RADIUS = Number(process.env.SQUAWK_DUPLICATE_RADIUS_NM) || DEFAULT_DUPLICATE_RADIUS_NM;
+
+// VATSIM facility ids
+const FACILITY_TWR = 4;
+const FACILITY_APP = 5;
+// How far out tower and approach/departure airspace is assumed to reach, in nm
+const TERMINAL_RANGE: Record<number, number> = { [FACILITY_TWR]: 10, [FACILITY_APP]: 40 };
+
+// Rough test for terminal airspace: a nearby tower or approach at an airport named by its callsign
+function findTerminalStation(pilot: VatsimPilot, controllers: VatsimController[], airports: Map<string, VatspyAirportCode>): string | null {
+  for (const controller of controllers) {
+    const range = TERMINAL_RANGE[controller.facility];
+    if (!range) continue;
+    const airport = airports.get(controller.callsign.split('_')[0].toUpperCase());
+    if (airport && calculateDistance(pilot.latitude, pilot.longitude, airport.latitude, airport.longitude) <= range) {
+      return controller.callsign;
+    }
+  }
+  return null;
+}
+
+async function resolveCoverageAt(latitude: number, longitude: number, controllers: VatsimController[]): Promise<ControllerCoverage> {
+  try {
+    const [firs, uirs, boundaries] = await Promise.all([getServerFIRs(), getServerUIRBoundaries(), readBoundaries()]);
+    return resolveCoverage(latitude, longitude, controllers, { firs, uirs, boundaries });
+  } catch (error) {
+    console.error('Error resolving controller coverage:', error);
+    return { station: null, uir: null };
+  }
+}
+
+async function resolveStaffedFIRs(controllers: VatsimController[]): Promise<string[]> {
+  try {
+    const [firs, uirs, boundaries] = await Promise.all([getServerFIRs(), getServerUIRBoundaries(), readBoundaries()]);
+    return staffedBoundaries(controllers, { firs, uirs, boundaries });
+  } catch (error) {
+    console.error('Error resolving staffed FIRs:', error);
+    return [];
+  }
+}
+
+// EET/ times count from takeoff; before then the filed off-block time plus taxi is the best guess
+function takeoffReference(schedule: FlightSchedule | null): string | null {
+  if (!schedule) return null;
+  if (schedule.actualTakeoff) return schedule.actualTakeoff;
+  if (!schedule.scheduledOffBlock) return null;
+  return new Date(Date.parse(schedule.scheduledOffBlock) + TAXI_OUT_MINUTES * 60000).toISOString();
+}
+
+async function resolveFIRSequence(
+  pilot: VatsimPilot,
+  arrival: { latitude: number; longitude: number } | null,
+  context: { route: ResolvedRoute | null; eta: EtaEstimate | null; remarks: DecodedRemarks | null; schedule: FlightSchedule | null; staffedFIRs: string[] }
+): Promise<FIRSequence | null> {
+  try {
+    const [boundaries, firNames] = await Promise.all([readBoundaries(), getServerFIRNames()]);
+    return predictFIRSequence(pilot, arrival, {
+      route: context.route,
+      eta: context.eta,
+      eet: context.remarks?.eet,
+      takeoffTime: takeoffReference(context.schedule),
+      boundaries,
+      firNames,
+      staffedFIRs: context.staffedFIRs
+    });
+  } catch (error) {
+    console.error('Error predicting FIR sequence:', error);
+    return null;
+  }
+}
+
+// Staffed positions at a flight plan airport, with the centre above it for top-down service
+async function resolveAirportStatus(airport: VatsimAirport | null, data: VatsimData): Promise<AirportAtcStatus | null> {
+  if (!airport) return null;
+
+  const centre = airport.latitude !== undefined && airport.longitude !== undefined
+    ? await resolveCoverageAt(airport.latitude, airport.longitude, data.controllers)
+    : null;
+  return resolveAirportAtc(airport, await getServerAirportCodes(), data.controllers, data.atis, centre?.station ?? centre?.uir ?? null);
+}
+
+async function resolveCurrentFIR(pilot: VatsimPilot): Promise<CurrentFIR | null> {
+  try {
+    const [boundaries, firNames] = await Promise.all([readBoundaries(), getServerFIRNames()]);
+    return detectFIR(pilot.latitude, pilot.longitude, boundaries, firNames);
+  } catch (error) {
+    console.error('Error detecting FIR:', error);
+    return null;
+  }
+}
+
+// Phase and ETA, shared by the flight view and the watchlist
+function resolveProgress(pilot: VatsimPilot, departure: VatsimAirport | null, arrival: VatsimAirport | null, route: ResolvedRoute | null) {
+  // Normally trackPhases has already seen this feed update and this is a no-op
+  const phase = trackFlightPhase(pilot, departure, arrival);
+  const arrivalPosition = arrival && arrival.latitude !== undefined && arrival.longitude !== undefined
+    ? { latitude: arrival.latitude, longitude: arrival.longitude }
+    : null;
+  const aircraft = pilot.flight_plan ? getAircraftType(pilot.flight_plan.aircraft_short) : null;
+  const eta = pilot.flight_plan
+    ? estimateArrival(pilot, arrivalPosition, { route, phase: phase.phase, aircraft })
+    : null;
+  return { phase, arrivalPosition, aircraft, eta };
+}
+
+async function enrichPilot(pilot: VatsimPilot, data: VatsimData): Promise<PilotEnrichment> {
+  const [departure, arrival, alternate, transceivers, route, currentFIR] = await Promise.all([
+    resolveAirport(pilot.flight_plan?.departure),
+    resolveAirport(pilot.flight_plan?.arrival),
+    resolveAirport(pilot.flight_plan?.alternate),
+    resolveTransceivers(pilot.callsign),
+    resolveFiledRoute(pilot.callsign, pilot.flight_plan),
+    resolveCurrentFIR(pilot)
+  ]);
+
+  const { phase, arrivalPosition, aircraft, eta } = resolveProgress(pilot, departure, arrival, route);
+  const schedule = buildFlightSchedule(pilot, phase, eta, aircraft);
+
+  const remarks = pilot.flight_plan ? decodeRemarks(pilot.flight_plan.remarks) : null;
+  const equipment = pilot.flight_plan ? decodeEquipment(pilot.flight_plan) : null;
+
+  const coverage = await resolveCoverageAt(pilot.latitude, pilot.longitude, data.controllers);
+  const staffedFIRs = await resolveStaffedFIRs(data.controllers);
+  const firSequence = await resolveFIRSequence(pilot, arrivalPosition, { route, eta, remarks, schedule, staffedFIRs });
+  const terminalStation = findTerminalStation(pilot, data.controllers, await getServerAirportCodes());
+  const controllingStation = terminalStation ?? coverage.station?.callsign ?? coverage.uir?.callsign ?? null;
+  const onGround = GROUND_PHASES.includes(phase.phase);
+  const squawk = validateSquawk(pilot, {
+    onGround,
+    controllingStation,
+    traffic: data.pilots,
+    duplicateRadius: DUPLICATE_SQUAWK_RADIUS
+  });
+
+  const activeFrequency = transceivers.length > 0 ? formatFrequency(transceivers[0].frequency) : null;
+  const radio = await resolveRadio(transceivers, data, controllingStation, !onGround);
+
+  const [departureAtc, arrivalAtc, alternateAtc] = await Promise.all([
+    resolveAirportStatus(departure, data),
+    resolveAirportStatus(arrival, data),
+    resolveAirportStatus(alternate, data)
+  ]);
+
+  return {
+    departure,
+    arrival,
+    alternate,
+    currentFIR,
+    activeFrequency,
+    radio,
+    eta,
+    route,
+    remarks,
+    equipment,
+    phase,
+    schedule,
+    squawk,
+    coverage,
+    staffedFIRs,
+    firSequence,
+    airportAtc: { departure: departureAtc, arrival: arrivalAtc, alternate: alternateAtc }
+  };
+}
+
+async function lookupPilot(predicate: (pilot: VatsimPilot) => boolean): Promise<PilotLookupResult | null> {
+  startPhaseTracking();
+  const snapshot = await getVatsimSnapshot();
+  const found = snapshot.data.pilots.find(predicate);
+
+  if (!found) {
+    return null;
+  }
+
+  const pilot = normalizePilot(found);
+  return {
+    pilot,
+    enrichment: await enrichPilot(pilot, snapshot.data),
+    updateTimestamp: snapshot.updateTimestamp
+  };
+}
+
+export function lookupPilotByCallsign(callsign: string): Promise<PilotLookupResult | null> {
+  const target = callsign.trim().toUpperCase();
+  return lookupPilot(pilot => pilot.callsign.toUpperCase() === target);
+}
+
+export function lookupPilotByCID(cid: string): Promise<PilotLookupResult | null> {
+  const target = cid.trim();
+  return lookupPilot(pilot => pilot.cid.toString() === target);
+}
+
+// Flight plans filed by pilots who have not connected yet
+async function enrichPrefile(prefile: VatsimPrefile): Promise<PrefileEnrichment> {
+  const flightPlan = prefile.flight_plan;
+  const [departure, arrival, alternate, route] = await Promise.all([
+    resolveAirport(flightPlan.departure),
+    resolveAirport(flightPlan.arrival),
+    resolveAirport(flightPlan.alternate),
+    resolveFiledRoute(prefile.callsign, flightPlan)
+  ]);
+
+  return {
+    departure,
+    arrival,
+    alternate,
+    route,
+    remarks: decodeRemarks(flightPlan.remarks),
+    equipment: decodeEquipment(flightPlan)
+  };
+}
+
+async function lookupPrefile(predicate: (prefile: VatsimPrefile) => boolean): Promise<PrefileLookupResult | null> {
+  startPhaseTracking();
+  const snapshot = await getVatsimSnapshot();
+  const found = snapshot.data.prefiles.find(predicate);
+
+  if (!found) {
+    return null;
+  }
+
+  const prefile = normalizePrefile(found);
+  return {
+    prefile,
+    enrichment: await enrichPrefile(prefile),
+    updateTimestamp: snapshot.updateTimestamp
+  };
+}
+
+export function lookupPrefileByCallsign(callsign: string): Promise<PrefileLookupResult | null> {
+  const target = callsign.trim().toUpperCase();
+  return lookupPrefile(prefile => prefile.callsign.toUpperCase() === target);
+}
+
+export function lookupPrefileByCID(cid: string): Promise<PrefileLookupResult | null> {
+  const target = cid.trim();
+  return lookupPrefile(prefile => prefile.cid.toString() === target);
+}
+
+// Watchlist statuses in one request: just enough to show where each flight is
+// and raise its events, without the full enrichment
+
+function offlineStatus(checkedAt: string): WatchlistStatus {
+  return {
+    state: 'offline',
+    callsign: null,
+    departure: null,
+    arrival: null,
+    phase: null,
+    eta: null,
+    transponder: null,
+    currentFIR: null,
+    activeFrequency: null,
+    checkedAt
+  };
+}
+
+async function pilotStatus(pilot: VatsimPilot, checkedAt: string): Promise<WatchlistStatus> {
+  const [departure, arrival, route, transceivers, currentFIR] = await Promise.all([
+    resolveAirport(pilot.flight_plan?.departure),
+    resolveAirport(pilot.flight_plan?.arrival),
+    resolveFiledRoute(pilot.callsign, pilot.flight_plan),
+    resolveTransceivers(pilot.callsign),
+    resolveCurrentFIR(pilot)
+  ]);
+  const { phase, eta } = resolveProgress(pilot, departure, arrival, route);
+
+  return {
+    state: GROUND_PHASES.includes(phase.phase) ? 'on-ground' : 'airborne',
+    callsign: pilot.callsign,
+    departure: pilot.flight_plan?.departure || null,
+    arrival: pilot.flight_plan?.arrival || null,
+    phase: phase.phase,
+    eta,
+    transponder: pilot.transponder,
+    currentFIR,
+    activeFrequency: transceivers.length > 0 ? formatFrequency(transceivers[0].frequency) : null,
+    checkedAt
+  };
+}
+
+// Online pilot first, then a prefiled flight plan
+export async function lookupWatchlist(entries: WatchlistEntry[]): Promise<WatchlistLookupResult> {
+  startPhaseTracking();
+  const snapshot = await getVatsimSnapshot();
+  const checkedAt = new Date().toISOString();
+  const matches = (entry: WatchlistEntry, item: VatsimPilot | VatsimPrefile) => entry.kind === 'cid'
+    ? item.cid.toString() === entry.value
+    : item.callsign.trim().toUpperCase() === entry.value;
+
+  const statuses: Record<string, WatchlistStatus> = {};
+  await Promise.all(entries.map(async entry => {
+    const key = `${entry.kind}:${entry.value}`;
+    const pilot = snapshot.data.pilots.find(item => matches(entry, item));
+    if (pilot) {
+      statuses[key] = await pilotStatus(normalizePilot(pilot), checkedAt);
+      return;
+    }
+
+    const found = snapshot.data.prefiles.find(item => matches(entry, item));
+    if (found) {
+      const prefile = normalizePrefile(found);
+      statuses[key] = {
+        ...offlineStatus(checkedAt),
+        state: 'prefiled',
+        callsign: prefile.callsign,
+        departure: prefile.flight_plan.departure || null,
+        arrival: prefile.flight_plan.arrival || null
+      };
+      return;
+    }
+
+    statuses[key] = offlineStatus(checkedAt);
+  }));
+
+  return { statuses, updateTimestamp: snapshot.updateTimestamp };
+}
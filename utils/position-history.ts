@@ -0,0 +1,155 @@
+import { PositionSample, VatsimPilot } from '../types/vatsim';
+
+// Per-callsign position history, recorded in the browser on every refresh and
+// persisted to IndexedDB so the flown track survives a reload. A history
+// belongs to one connection: when the pilot logs on again it starts over.
+
+const DB_NAME = 'vatsim-fpn';
+const DB_VERSION = 1;
+const STORE_NAME = 'position-history';
+
+// 15 second feed updates -> roughly 20 hours of flying
+const MAX_SAMPLES = 5000;
+// Samples older than this are dropped, and so are whole histories once their newest sample is
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+interface HistoryRecord {
+  callsign: string;
+  logonTime: string;
+  samples: PositionSample[];
+}
+
+const memoryCache = new Map<string, HistoryRecord>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let pruned = false;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      // Not available during prerender or in some private browsing modes
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'callsign' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Could not open position history database:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function readRecord(callsign: string): Promise<HistoryRecord | null> {
+  const cached = memoryCache.get(callsign);
+  if (cached) return cached;
+
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(callsign);
+    request.onsuccess = () => {
+      const record = (request.result as HistoryRecord | undefined) ?? null;
+      if (record) {
+        memoryCache.set(callsign, record);
+      }
+      resolve(record);
+    };
+    request.onerror = () => {
+      console.error(`Could not read position history for ${callsign}:`, request.error);
+      resolve(null);
+    };
+  });
+}
+
+// Delete the histories of flights not seen for MAX_AGE_MS; nothing else ever removes them
+function pruneStaleRecords(db: IDBDatabase): Promise<void> {
+  const cutoff = Date.now() - MAX_AGE_MS;
+  return new Promise(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const request = transaction.objectStore(STORE_NAME).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const { callsign, samples } = cursor.value as HistoryRecord;
+      const last = samples[samples.length - 1];
+      if (!last || last.timestamp < cutoff) {
+        cursor.delete();
+        memoryCache.delete(callsign);
+      }
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Could not prune position history:', transaction.error);
+      resolve();
+    };
+  });
+}
+
+async function writeRecord(record: HistoryRecord): Promise<void> {
+  const db = await openDatabase();
+
+  // Once per page load, before the first write so the record being written is never pruned
+  if (db && !pruned) {
+    pruned = true;
+    await pruneStaleRecords(db);
+  }
+
+  memoryCache.set(record.callsign, record);
+  if (!db) return;
+
+  await new Promise<void>(resolve => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(record);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error(`Could not save position history for ${record.callsign}:`, transaction.error);
+      resolve();
+    };
+  });
+}
+
+export async function loadPositionHistory(callsign: string): Promise<PositionSample[]> {
+  const record = await readRecord(callsign.toUpperCase());
+  return record ? record.samples : [];
+}
+
+// Append the pilot's current position; refreshes between feed updates are ignored
+export async function recordPosition(pilot: VatsimPilot): Promise<PositionSample[]> {
+  const callsign = pilot.callsign.toUpperCase();
+  const timestamp = new Date(pilot.last_updated).getTime();
+  const existing = await readRecord(callsign);
+
+  const record: HistoryRecord = existing && existing.logonTime === pilot.logon_time
+    ? existing
+    : { callsign, logonTime: pilot.logon_time, samples: [] };
+
+  const last = record.samples[record.samples.length - 1];
+  if (isNaN(timestamp) || (last && last.timestamp >= timestamp)) {
+    return record.samples;
+  }
+
+  const cutoff = timestamp - MAX_AGE_MS;
+  const samples = [...record.samples.filter(sample => sample.timestamp >= cutoff), {
+    timestamp,
+    latitude: pilot.latitude,
+    longitude: pilot.longitude,
+    altitude: pilot.altitude,
+    groundspeed: pilot.groundspeed,
+    heading: pilot.heading
+  }].slice(-MAX_SAMPLES);
+
+  await writeRecord({ ...record, samples });
+  return samples;
+}
@@ -0,0 +1,113 @@
+import { RadioStatus, TunedRadio, TunedStation, VatsimATIS, VatsimController, VatsimTransceiver } from '../types/vatsim';
+import { VatspyAirport, VatspyAirportCode, VatspyFIR, VatspyUIR } from './vatspy-parser';
+import { callsignPrefixes } from './controller-coverage';
+
+// Joins the pilot's transceivers with the controllers and ATIS stations in the
+// feed, so a tuned frequency reads as "132.600 – London Control (LON_S_CTR)".
+
+export const UNICOM_FREQUENCY = '122.800';
+// Observers and controllers without a primary frequency sit on this placeholder
+const PLACEHOLDER_FREQUENCY = '199.998';
+
+const RADIO_LABELS = ['COM1', 'COM2'];
+
+// How each position is addressed on frequency
+const FACILITY_WORDS: Record<string, string> = {
+  DEL: 'Delivery',
+  GND: 'Ground',
+  TWR: 'Tower',
+  APP: 'Approach',
+  DEP: 'Departure',
+  CTR: 'Control',
+  FSS: 'Radio',
+  ATIS: 'ATIS'
+};
+
+export interface StationNameData {
+  firs: VatspyFIR[];
+  uirs: VatspyUIR[];
+  airportCodes: Map<string, VatspyAirportCode>;
+  airports: Map<string, VatspyAirport>;
+}
+
+// Transceiver frequencies are in Hz, the data feed lists MHz with three decimals
+export const formatFrequency = (hertz: number): string => (hertz / 1000000).toFixed(3);
+
+// "LON_S_CTR" -> "London Control", "EGLL_N_TWR" -> "London Heathrow Tower"
+export function stationName(callsign: string, data: StationNameData): string {
+  const parts = callsign.toUpperCase().split('_');
+  const suffix = parts[parts.length - 1];
+  const word = FACILITY_WORDS[suffix];
+  if (!word) return callsign;
+
+  let place: string | null = null;
+  if (suffix === 'CTR' || suffix === 'FSS') {
+    for (const prefix of callsignPrefixes(callsign)) {
+      const fir = data.firs.find(item =>
+        item.callsignPrefix.toUpperCase() === prefix || item.icao.toUpperCase().replace(/-/g, '_') === prefix);
+      if (fir) {
+        // Sectors are named after their parent FIR on frequency
+        const parent = data.firs.find(item => item.icao === fir.icao.split('-')[0]);
+        place = (parent ?? fir).name;
+        break;
+      }
+      const uir = data.uirs.find(item => item.id.toUpperCase() === prefix);
+      if (uir) {
+        place = uir.name;
+        break;
+      }
+    }
+  } else {
+    const code = data.airportCodes.get(parts[0]);
+    const airport = code ? data.airports.get(code.icao) : undefined;
+    place = airport ? airport.name : null;
+  }
+
+  return place ? `${place} ${word}` : callsign;
+}
+
+function toTunedStation(station: VatsimController | VatsimATIS, data: StationNameData): TunedStation {
+  const isAtis = 'atis_code' in station;
+  return {
+    callsign: station.callsign,
+    frequency: station.frequency,
+    name: stationName(station.callsign, data),
+    controllerName: station.name,
+    kind: isAtis ? 'atis' : 'controller',
+    atisCode: isAtis ? station.atis_code : null
+  };
+}
+
+export function resolveRadioStatus(
+  transceivers: VatsimTransceiver[],
+  controllers: VatsimController[],
+  atis: VatsimATIS[],
+  data: StationNameData,
+  options: { expected: VatsimController | null; airborne: boolean }
+): RadioStatus {
+  const expected = options.expected ? toTunedStation(options.expected, data) : null;
+
+  const radios: TunedRadio[] = transceivers.slice(0, RADIO_LABELS.length).map((transceiver, index) => {
+    const frequency = formatFrequency(transceiver.frequency);
+    // Frequencies are shared between regions, so the station controlling the aircraft wins
+    const station = expected && expected.frequency === frequency
+      ? options.expected
+      : controllers.find(item => item.frequency === frequency && item.frequency !== PLACEHOLDER_FREQUENCY) ??
+        atis.find(item => item.frequency === frequency) ??
+        null;
+
+    return {
+      label: RADIO_LABELS[index],
+      frequency,
+      station: station ? toTunedStation(station, data) : null,
+      unicom: frequency === UNICOM_FREQUENCY
+    };
+  });
+
+  return {
+    radios,
+    expected,
+    notOnExpected: options.airborne && expected !== null && radios.length > 0 &&
+      !radios.some(radio => radio.frequency === expected.frequency)
+  };
+}
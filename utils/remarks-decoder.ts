@@ -0,0 +1,121 @@
+import { DecodedRemarks, EetEntry, PbnCapability, VoiceCapability } from '../types/vatsim';
+
+// Decoder for ICAO Item 18 ("other information") as filed in VATSIM remarks,
+// e.g. "PBN/A1B1D1O1S2 DOF/250301 REG/GEUUA EET/EISN0012 OPR/BAW RMK/TCAS /V/"
+
+const ITEM18_INDICATORS = [
+  'STS', 'PBN', 'NAV', 'COM', 'DAT', 'SUR', 'DEP', 'DEST', 'DOF', 'REG', 'EET', 'SEL', 'TYP',
+  'CODE', 'DLE', 'OPR', 'ORGN', 'PER', 'ALTN', 'RALT', 'TALT', 'RIF', 'RMK', 'RVR', 'EUR'
+];
+
+const INDICATOR_PATTERN = new RegExp(`(?:^|\\s)(${ITEM18_INDICATORS.join('|')})/`, 'g');
+const VOICE_PATTERN = /(^|\s)\/([VRT])\/(?=\s|$)/g;
+
+const VOICE_CODES: Record<string, VoiceCapability> = {
+  V: 'voice',
+  R: 'receive-only',
+  T: 'text-only'
+};
+
+export const PBN_DESCRIPTIONS: Record<string, string> = {
+  A1: 'RNAV 10 (RNP 10)',
+  B1: 'RNAV 5 all permitted sensors',
+  B2: 'RNAV 5 GNSS',
+  B3: 'RNAV 5 DME/DME',
+  B4: 'RNAV 5 VOR/DME',
+  B5: 'RNAV 5 INS or IRS',
+  B6: 'RNAV 5 LORAN C',
+  C1: 'RNAV 2 all permitted sensors',
+  C2: 'RNAV 2 GNSS',
+  C3: 'RNAV 2 DME/DME',
+  C4: 'RNAV 2 DME/DME/IRU',
+  D1: 'RNAV 1 all permitted sensors',
+  D2: 'RNAV 1 GNSS',
+  D3: 'RNAV 1 DME/DME',
+  D4: 'RNAV 1 DME/DME/IRU',
+  L1: 'RNP 4',
+  O1: 'Basic RNP 1 all permitted sensors',
+  O2: 'Basic RNP 1 GNSS',
+  O3: 'Basic RNP 1 DME/DME',
+  O4: 'Basic RNP 1 DME/DME/IRU',
+  S1: 'RNP APCH',
+  S2: 'RNP APCH with BARO-VNAV',
+  T1: 'RNP AR APCH with RF',
+  T2: 'RNP AR APCH without RF'
+};
+
+function decodePbn(value: string): PbnCapability[] {
+  const codes = value.replace(/\s+/g, '').match(/[A-Z]\d/g) || [];
+  return codes.map(code => ({
+    code,
+    description: PBN_DESCRIPTIONS[code] || 'Unknown PBN code'
+  }));
+}
+
+// "EGTT0030 EISN0105" -> elapsed time from departure to each FIR boundary
+function decodeEet(value: string): EetEntry[] {
+  const entries: EetEntry[] = [];
+  const pattern = /([A-Z]{2,5}|\d{2,4}[NS]\d{3,5}[EW])(\d{2})(\d{2})(?=\s|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    entries.push({
+      location: match[1],
+      elapsed: `${match[2]}${match[3]}`,
+      minutes: parseInt(match[2], 10) * 60 + parseInt(match[3], 10)
+    });
+  }
+  return entries;
+}
+
+// DOF/YYMMDD -> YYYY-MM-DD
+function decodeDateOfFlight(value: string): string | null {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  return `20${year}-${month}-${day}`;
+}
+
+export function decodeRemarks(remarks: string): DecodedRemarks {
+  const text = remarks.toUpperCase();
+
+  // Voice codes are VATSIM-specific and often appended after RMK/, so pull them out first
+  const voiceCodes: string[] = [];
+  const withoutVoice = text.replace(VOICE_PATTERN, (_, leading: string, code: string) => {
+    voiceCodes.push(code);
+    return leading;
+  }).trim();
+  const voice = voiceCodes.length > 0 ? VOICE_CODES[voiceCodes[0]] : null;
+
+  const matches: { indicator: string; start: number; end: number }[] = [];
+  INDICATOR_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = INDICATOR_PATTERN.exec(withoutVoice)) !== null) {
+    matches.push({ indicator: match[1], start: match.index, end: match.index + match[0].length });
+  }
+
+  const indicators: Record<string, string> = {};
+  matches.forEach((current, index) => {
+    const end = index + 1 < matches.length ? matches[index + 1].start : withoutVoice.length;
+    const value = withoutVoice.slice(current.end, end).trim();
+    // Repeated indicators (e.g. two RMK/ groups) are joined rather than dropped
+    indicators[current.indicator] = indicators[current.indicator] ? `${indicators[current.indicator]} ${value}` : value;
+  });
+
+  // Free text before the first indicator is treated as a remark
+  const leadingText = matches.length > 0 ? withoutVoice.slice(0, matches[0].start).trim() : withoutVoice;
+
+  const { PBN, NAV, REG, OPR, SEL, DOF, RMK, EET, ...other } = indicators;
+
+  return {
+    voice,
+    registration: REG || null,
+    operator: OPR || null,
+    selcal: SEL || null,
+    dateOfFlight: DOF ? decodeDateOfFlight(DOF) : null,
+    navigation: NAV || null,
+    pbn: PBN ? decodePbn(PBN) : [],
+    eet: EET ? decodeEet(EET) : [],
+    remarks: [leadingText, RMK].filter(Boolean).join(' ') || null,
+    other
+  };
+}
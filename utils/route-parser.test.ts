@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseCoordinate, parseRoute } from './route-parser';
+
+// Coordinate forms filed in oceanic routes
+
+describe('parseCoordinate', () => {
+  it('reads whole-degree and ARINC forms', () => {
+    expect(parseCoordinate('50N020W')).toEqual({ latitude: 50, longitude: -20, format: 'degrees' });
+    expect(parseCoordinate('5020N')).toEqual({ latitude: 50, longitude: -20, format: 'arinc' });
+  });
+
+  it('adds 30 minutes of latitude for H-style half-degree waypoints', () => {
+    expect(parseCoordinate('H5020')).toEqual({ latitude: 50.5, longitude: -20, format: 'half-degree' });
+  });
+
+  it('leaves other tokens alone', () => {
+    expect(parseCoordinate('H502')).toBeNull();
+    expect(parseCoordinate('HAPPY')).toBeNull();
+  });
+});
+
+describe('parseRoute', () => {
+  it('classifies H-style tokens as coordinates', () => {
+    const { tokens } = parseRoute('DOGAL H5320 H5430 JOOPY');
+    expect(tokens.map(token => token.type)).toEqual(['fix', 'coordinate', 'coordinate', 'fix']);
+  });
+});
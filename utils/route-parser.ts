@@ -0,0 +1,257 @@
+// Parser for ICAO Item 15 style route strings, e.g.
+// "N0450F350 BPK7G BPK UN57 WELIN UN601 INPIP/N0440F370 DCT LAKEY LAKEY1A"
+
+export interface SpeedLevel {
+  speed: { unit: 'N' | 'K' | 'M'; value: number }; // knots, km/h, or Mach * 100
+  level: { unit: 'F' | 'A' | 'S' | 'M' | 'VFR'; value: number | null }; // hundreds of ft, tens of metres
+}
+
+export type CoordinateFormat =
+  | 'degrees'        // 50N020W
+  | 'minutes'        // 5020N02030W
+  | 'seconds'        // 502015N0203045W
+  | 'arinc'          // 5020N, 50N20 (ARINC 424 five-character)
+  | 'half-degree';   // H5020 (NAT half-degree: 50°30'N 020°W)
+
+export type RouteToken =
+  | { type: 'sid'; raw: string; name: string }
+  | { type: 'star'; raw: string; name: string }
+  | { type: 'airway'; raw: string; name: string }
+  | { type: 'fix'; raw: string; name: string }
+  | { type: 'airport'; raw: string; icao: string }
+  | { type: 'coordinate'; raw: string; latitude: number; longitude: number; format: CoordinateFormat }
+  | { type: 'direct'; raw: string }
+  | { type: 'speedLevel'; raw: string; change: SpeedLevel }
+  | { type: 'flightRules'; raw: string; rules: 'IFR' | 'VFR' }
+  | { type: 'unknown'; raw: string };
+
+export type RoutePointToken = Extract<RouteToken, { type: 'fix' | 'airport' | 'coordinate' }>;
+
+export interface ParsedRoute {
+  tokens: RouteToken[];
+  sid: string | null;
+  star: string | null;
+  initialSpeedLevel: SpeedLevel | null;
+}
+
+export interface ParseRouteOptions {
+  departure?: string;
+  arrival?: string;
+}
+
+const SPEED_LEVEL_PATTERN = /^(N\d{4}|K\d{4}|M\d{3})(F\d{3}|A\d{3}|S\d{4}|M\d{4}|VFR)$/;
+// Procedure names: a 2-6 letter name followed by a revision digit and optional transition letter
+const PROCEDURE_PATTERN = /^[A-Z]{2,6}\d{1,2}[A-Z]?$/;
+// Airways: 1-3 letter designator prefix followed by a number, e.g. UN57, L9, Q41, UL607, T420
+const AIRWAY_PATTERN = /^[A-Z]{1,3}\d{1,4}[A-Z]?$/;
+// Designators that can only be airways (ICAO Annex 11 App. 1): optional U/K/S prefix, route letter, number.
+// Keeps "UN57" or "UL9" at either end of the route from being read as a SID or STAR
+const AIRWAY_DESIGNATOR_PATTERN = /^[UKS]?[ABGHJLMNPQRTVWYZ]\d{1,3}[A-Z]?$/;
+const FIX_PATTERN = /^[A-Z]{2,5}$/;
+const AIRPORT_PATTERN = /^[A-Z]{4}$/;
+
+const DEGREES_PATTERN = /^(\d{2})([NS])(\d{3})([EW])$/;
+const MINUTES_PATTERN = /^(\d{2})(\d{2})([NS])(\d{3})(\d{2})([EW])$/;
+const SECONDS_PATTERN = /^(\d{2})(\d{2})(\d{2})([NS])(\d{3})(\d{2})(\d{2})([EW])$/;
+const ARINC_PATTERN = /^(\d{2})(\d{2})([NESW])$|^(\d{2})([NESW])(\d{2})$/;
+const HALF_DEGREE_PATTERN = /^H(\d{2})(\d{2})$/;
+
+// ARINC 424 quadrant letters: N = north/west, E = north/east, S = south/east, W = south/west
+const ARINC_QUADRANTS: Record<string, [number, number]> = {
+  N: [1, -1],
+  E: [1, 1],
+  S: [-1, 1],
+  W: [-1, -1]
+};
+
+export function parseSpeedLevel(value: string): SpeedLevel | null {
+  const match = value.match(SPEED_LEVEL_PATTERN);
+  if (!match) return null;
+
+  const [, speedPart, levelPart] = match;
+  return {
+    speed: {
+      unit: speedPart[0] as SpeedLevel['speed']['unit'],
+      value: parseInt(speedPart.slice(1), 10)
+    },
+    level: levelPart === 'VFR'
+      ? { unit: 'VFR', value: null }
+      : { unit: levelPart[0] as SpeedLevel['level']['unit'], value: parseInt(levelPart.slice(1), 10) }
+  };
+}
+
+export function parseCoordinate(value: string): { latitude: number; longitude: number; format: CoordinateFormat } | null {
+  let match = value.match(DEGREES_PATTERN);
+  if (match) {
+    const [, lat, ns, lon, ew] = match;
+    return {
+      latitude: parseInt(lat, 10) * (ns === 'S' ? -1 : 1),
+      longitude: parseInt(lon, 10) * (ew === 'W' ? -1 : 1),
+      format: 'degrees'
+    };
+  }
+
+  match = value.match(MINUTES_PATTERN);
+  if (match) {
+    const [, latDeg, latMin, ns, lonDeg, lonMin, ew] = match;
+    return {
+      latitude: (parseInt(latDeg, 10) + parseInt(latMin, 10) / 60) * (ns === 'S' ? -1 : 1),
+      longitude: (parseInt(lonDeg, 10) + parseInt(lonMin, 10) / 60) * (ew === 'W' ? -1 : 1),
+      format: 'minutes'
+    };
+  }
+
+  match = value.match(SECONDS_PATTERN);
+  if (match) {
+    const [, latDeg, latMin, latSec, ns, lonDeg, lonMin, lonSec, ew] = match;
+    return {
+      latitude: (parseInt(latDeg, 10) + parseInt(latMin, 10) / 60 + parseInt(latSec, 10) / 3600) * (ns === 'S' ? -1 : 1),
+      longitude: (parseInt(lonDeg, 10) + parseInt(lonMin, 10) / 60 + parseInt(lonSec, 10) / 3600) * (ew === 'W' ? -1 : 1),
+      format: 'seconds'
+    };
+  }
+
+  match = value.match(ARINC_PATTERN);
+  if (match) {
+    // Letter last: longitude below 100 ("5020N"); letter in the middle: add 100 ("50N20" = 120W)
+    const [latitude, longitude, quadrant] = match[1] !== undefined
+      ? [parseInt(match[1], 10), parseInt(match[2], 10), match[3]]
+      : [parseInt(match[4], 10), parseInt(match[6], 10) + 100, match[5]];
+    const [latSign, lonSign] = ARINC_QUADRANTS[quadrant];
+    return {
+      latitude: latitude * latSign,
+      longitude: longitude * lonSign,
+      format: 'arinc'
+    };
+  }
+
+  match = value.match(HALF_DEGREE_PATTERN);
+  if (match) {
+    // Half-degree North Atlantic waypoints as named in FMS databases: "H" + whole latitude + west
+    // longitude, with 30' added to the latitude (H5020 = 50°30'N 020°W, the ARINC 424 "N5020")
+    return {
+      latitude: parseInt(match[1], 10) + 0.5,
+      longitude: -parseInt(match[2], 10),
+      format: 'half-degree'
+    };
+  }
+
+  return null;
+}
+
+function classifyElement(
+  element: string,
+  index: number,
+  count: number,
+  options: ParseRouteOptions
+): RouteToken {
+  if (element === 'DCT') {
+    return { type: 'direct', raw: element };
+  }
+
+  if (element === 'IFR' || element === 'VFR') {
+    return { type: 'flightRules', raw: element, rules: element };
+  }
+
+  const change = parseSpeedLevel(element);
+  if (change) {
+    return { type: 'speedLevel', raw: element, change };
+  }
+
+  const coordinate = parseCoordinate(element);
+  if (coordinate) {
+    return { type: 'coordinate', raw: element, ...coordinate };
+  }
+
+  if (element === options.departure || element === options.arrival) {
+    return { type: 'airport', raw: element, icao: element };
+  }
+
+  // Generic placeholders that pilots file instead of a procedure name
+  if (element === 'SID' && index === 0) {
+    return { type: 'sid', raw: element, name: element };
+  }
+  if (element === 'STAR' && index === count - 1) {
+    return { type: 'star', raw: element, name: element };
+  }
+
+  if (PROCEDURE_PATTERN.test(element) && !AIRWAY_DESIGNATOR_PATTERN.test(element)) {
+    if (index === 0) {
+      return { type: 'sid', raw: element, name: element };
+    }
+    if (index === count - 1) {
+      return { type: 'star', raw: element, name: element };
+    }
+  }
+
+  if (AIRWAY_PATTERN.test(element) && index > 0 && index < count - 1) {
+    return { type: 'airway', raw: element, name: element };
+  }
+
+  // Four-letter elements are airports (e.g. "KORD" in US routes); fixes have five letters, navaids two or three
+  if (AIRPORT_PATTERN.test(element)) {
+    return { type: 'airport', raw: element, icao: element };
+  }
+
+  if (FIX_PATTERN.test(element)) {
+    return { type: 'fix', raw: element, name: element };
+  }
+
+  return { type: 'unknown', raw: element };
+}
+
+// Split a filed route into typed tokens, in filed order
+export function parseRoute(route: string, options: ParseRouteOptions = {}): ParsedRoute {
+  const elements = route
+    .toUpperCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    // Departure/arrival airports at either end carry no routing information
+    .filter((element, index, all) =>
+      !((index === 0 && element === options.departure) ||
+        (index === all.length - 1 && element === options.arrival))
+    );
+
+  // Split "FIX/N0450F350" and "/M082F370" into a point and a separate change group
+  const parts: string[] = [];
+  for (const element of elements) {
+    const slash = element.indexOf('/');
+    if (slash === -1) {
+      parts.push(element);
+      continue;
+    }
+    if (slash > 0) {
+      parts.push(element.slice(0, slash));
+    }
+    parts.push(element.slice(slash + 1));
+  }
+
+  // Procedure position is judged on routing elements only, ignoring change groups
+  const routingParts = parts.filter(part => !SPEED_LEVEL_PATTERN.test(part));
+
+  let routingIndex = 0;
+  const tokens = parts.map(part => {
+    if (SPEED_LEVEL_PATTERN.test(part)) {
+      return classifyElement(part, -1, routingParts.length, options);
+    }
+    return classifyElement(part, routingIndex++, routingParts.length, options);
+  });
+
+  const sid = tokens.find(token => token.type === 'sid');
+  const star = tokens.find(token => token.type === 'star');
+  const initialChange = tokens[0]?.type === 'speedLevel' ? tokens[0].change : null;
+
+  return {
+    tokens,
+    sid: sid && sid.type === 'sid' ? sid.name : null,
+    star: star && star.type === 'star' ? star.name : null,
+    initialSpeedLevel: initialChange
+  };
+}
+
+// Points of the route that have (or can be looked up to) a position
+export function getRoutePoints(tokens: RouteToken[]): RoutePointToken[] {
+  return tokens.filter((token): token is RoutePointToken =>
+    token.type === 'fix' || token.type === 'airport' || token.type === 'coordinate'
+  );
+}
@@ -0,0 +1,215 @@
+import { ResolvedRoute, ResolvedWaypoint } from '../types/vatsim';
+import { RouteToken } from './route-parser';
+import { expandAirway, isOnAirway, NavDatabase, NavPoint } from './navdata';
+import { calculateDistance } from './geo';
+
+// Turns a parsed route into an ordered list of positioned waypoints,
+// expanding airway segments between their entry and exit fixes.
+
+export interface RouteAirport {
+  icao: string;
+  latitude: number;
+  longitude: number;
+}
+
+function toWaypoint(point: NavPoint, via: string | null): ResolvedWaypoint {
+  return {
+    ident: point.ident,
+    latitude: point.latitude,
+    longitude: point.longitude,
+    kind: point.kind,
+    via
+  };
+}
+
+function airportWaypoint(airport: RouteAirport): ResolvedWaypoint {
+  return {
+    ident: airport.icao,
+    latitude: airport.latitude,
+    longitude: airport.longitude,
+    kind: 'airport',
+    via: null
+  };
+}
+
+// Identifiers repeat around the world; pick the candidate that makes sense for this route
+function chooseCandidate(
+  candidates: NavPoint[],
+  reference: { latitude: number; longitude: number } | null,
+  preferredAirways: string[],
+  db: NavDatabase
+): NavPoint {
+  let pool = candidates;
+  for (const airway of preferredAirways) {
+    const onAirway = pool.filter(point => isOnAirway(db, airway, point));
+    if (onAirway.length > 0) {
+      pool = onAirway;
+    }
+  }
+
+  if (!reference || pool.length === 1) {
+    return pool[0];
+  }
+
+  return pool.reduce((best, point) =>
+    calculateDistance(reference.latitude, reference.longitude, point.latitude, point.longitude) <
+    calculateDistance(reference.latitude, reference.longitude, best.latitude, best.longitude)
+      ? point
+      : best
+  );
+}
+
+export function resolveRoute(
+  tokens: RouteToken[],
+  db: NavDatabase,
+  airports: Map<string, RouteAirport>,
+  departure?: string,
+  arrival?: string
+): ResolvedRoute {
+  const waypoints: ResolvedWaypoint[] = [];
+  const unresolved: string[] = [];
+  const departureAirport = departure ? airports.get(departure) : undefined;
+  const arrivalAirport = arrival ? airports.get(arrival) : undefined;
+
+  if (departureAirport) {
+    waypoints.push(airportWaypoint(departureAirport));
+  }
+
+  let lastPoint: NavPoint | null = null;
+  let pendingAirway: string | null = null;
+
+  tokens.forEach((token, index) => {
+    const reference = waypoints[waypoints.length - 1] ?? arrivalAirport ?? null;
+
+    switch (token.type) {
+      case 'airway':
+        pendingAirway = token.name;
+        return;
+
+      case 'direct':
+        pendingAirway = null;
+        return;
+
+      case 'coordinate':
+        waypoints.push({
+          ident: token.raw,
+          latitude: token.latitude,
+          longitude: token.longitude,
+          kind: 'coordinate',
+          via: null
+        });
+        lastPoint = null;
+        pendingAirway = null;
+        return;
+
+      case 'airport': {
+        const airport = airports.get(token.icao);
+        if (airport && token.icao !== departure && token.icao !== arrival) {
+          waypoints.push(airportWaypoint(airport));
+        } else if (!airport) {
+          unresolved.push(token.raw);
+        }
+        lastPoint = null;
+        pendingAirway = null;
+        return;
+      }
+
+      case 'fix': {
+        const candidates = db.points.get(token.name);
+        if (!candidates || candidates.length === 0) {
+          unresolved.push(token.raw);
+          // Without this fix the next airway has no known entry point, so it is flown direct
+          lastPoint = null;
+          pendingAirway = null;
+          return;
+        }
+
+        // Prefer candidates on the airway we arrived by and the one we leave on
+        const nextToken = tokens.slice(index + 1).find(next => next.type !== 'speedLevel');
+        const preferredAirways = [
+          pendingAirway,
+          nextToken?.type === 'airway' ? nextToken.name : null
+        ].filter((name): name is string => name !== null);
+
+        const point = chooseCandidate(candidates, reference, preferredAirways, db);
+        const airway: string | null = pendingAirway;
+
+        if (airway && lastPoint) {
+          const segment = expandAirway(db, airway, lastPoint, point);
+          if (segment) {
+            waypoints.push(...segment.map(node => toWaypoint(node, airway)));
+          } else {
+            // Exit fix is not on the airway; fall back to flying direct
+            unresolved.push(airway);
+            waypoints.push(toWaypoint(point, null));
+          }
+        } else {
+          waypoints.push(toWaypoint(point, null));
+        }
+
+        lastPoint = point;
+        pendingAirway = null;
+        return;
+      }
+
+      default:
+        // SIDs, STARs and speed/level groups have no position without procedure data
+        return;
+    }
+  });
+
+  if (arrivalAirport) {
+    waypoints.push(airportWaypoint(arrivalAirport));
+  }
+
+  return {
+    waypoints,
+    unresolved,
+    totalDistance: Math.round(routeDistance(waypoints))
+  };
+}
+
+export function routeDistance(waypoints: { latitude: number; longitude: number }[]): number {
+  let distance = 0;
+  for (let i = 1; i < waypoints.length; i++) {
+    distance += calculateDistance(
+      waypoints[i - 1].latitude,
+      waypoints[i - 1].longitude,
+      waypoints[i].latitude,
+      waypoints[i].longitude
+    );
+  }
+  return distance;
+}
+
+// Split the route at the aircraft's position: the segment it is on is the one
+// with the smallest detour when flown via the current position.
+export function splitRouteAtPosition<T extends { latitude: number; longitude: number }>(
+  waypoints: T[],
+  latitude: number,
+  longitude: number
+): { flown: T[]; remaining: T[] } {
+  if (waypoints.length < 2) {
+    return { flown: waypoints, remaining: [] };
+  }
+
+  let bestIndex = 0;
+  let bestDetour = Infinity;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const a = waypoints[i];
+    const b = waypoints[i + 1];
+    const detour =
+      calculateDistance(a.latitude, a.longitude, latitude, longitude) +
+      calculateDistance(latitude, longitude, b.latitude, b.longitude) -
+      calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+    if (detour < bestDetour) {
+      bestDetour = detour;
+      bestIndex = i;
+    }
+  }
+
+  return {
+    flown: waypoints.slice(0, bestIndex + 1),
+    remaining: waypoints.slice(bestIndex + 1)
+  };
+}
@@ -0,0 +1,83 @@
+import { SquawkIssue, SquawkSeverity, SquawkValidation, VatsimPilot } from '../types/vatsim';
+import { calculateDistance } from './geo';
+
+// Transponder codes with a fixed meaning, and checks of a pilot's code
+// against what ATC assigned and the traffic around them.
+
+export const EMERGENCY_SQUAWKS: Record<string, string> = {
+  '7500': 'unlawful interference',
+  '7600': 'radio failure',
+  '7700': 'emergency'
+};
+
+// VFR/uncontrolled conspicuity codes: US 1200, Europe 7000, VATSIM default 2000
+const CONSPICUITY_SQUAWKS = ['1200', '2000', '7000'];
+// Codes many aircraft share by design, so never duplicates
+const NON_DISCRETE_SQUAWKS = ['0000', '1000', '2200', ...CONSPICUITY_SQUAWKS];
+
+export const DEFAULT_DUPLICATE_RADIUS_NM = 50;
+
+const SEVERITY_ORDER: SquawkSeverity[] = ['ok', 'advisory', 'warning', 'alert'];
+
+// The feed sometimes drops leading zeros
+export const normalizeSquawk = (code: string | number | null | undefined): string =>
+  String(code ?? '').padStart(4, '0');
+
+export const isEmergencySquawk = (code: string | null | undefined): boolean =>
+  !!code && EMERGENCY_SQUAWKS[code] !== undefined;
+
+export interface SquawkContext {
+  onGround: boolean;
+  controllingStation: string | null; // online ATC whose airspace the pilot is in
+  traffic: VatsimPilot[]; // every pilot on the network, the checked one included
+  duplicateRadius?: number; // nm
+}
+
+export function validateSquawk(pilot: VatsimPilot, context: SquawkContext): SquawkValidation {
+  const { onGround, controllingStation, traffic, duplicateRadius = DEFAULT_DUPLICATE_RADIUS_NM } = context;
+  const code = normalizeSquawk(pilot.transponder);
+  const rawAssigned = pilot.flight_plan?.assigned_transponder;
+  const assigned = rawAssigned && normalizeSquawk(rawAssigned) !== '0000' ? normalizeSquawk(rawAssigned) : null;
+  const issues: SquawkIssue[] = [];
+
+  if (isEmergencySquawk(code)) {
+    issues.push({ check: 'emergency', severity: 'alert', message: `Squawking ${code} (${EMERGENCY_SQUAWKS[code]})` });
+  } else if (assigned && code !== assigned) {
+    // Codes are usually set before pushback, so only airborne mismatches are a real problem
+    issues.push({
+      check: 'assigned-code',
+      severity: onGround ? 'advisory' : 'warning',
+      message: `Squawking ${code} instead of the assigned ${assigned}`
+    });
+  } else if (!assigned && !onGround && controllingStation && CONSPICUITY_SQUAWKS.includes(code)) {
+    issues.push({
+      check: 'conspicuity-code',
+      severity: 'warning',
+      message: `Still on ${code} in ${controllingStation} airspace without an assigned code`
+    });
+  }
+
+  const duplicates = NON_DISCRETE_SQUAWKS.includes(code) || isEmergencySquawk(code)
+    ? []
+    : traffic
+      .filter(other =>
+        other.callsign !== pilot.callsign &&
+        normalizeSquawk(other.transponder) === code &&
+        calculateDistance(pilot.latitude, pilot.longitude, other.latitude, other.longitude) <= duplicateRadius
+      )
+      .map(other => other.callsign);
+  if (duplicates.length > 0) {
+    issues.push({
+      check: 'duplicate-code',
+      severity: onGround ? 'advisory' : 'warning',
+      message: `${duplicates.join(', ')} also squawking ${code} within ${duplicateRadius} nm`
+    });
+  }
+
+  const severity = issues.reduce<SquawkSeverity>(
+    (worst, issue) => SEVERITY_ORDER.indexOf(issue.severity) > SEVERITY_ORDER.indexOf(worst) ? issue.severity : worst,
+    'ok'
+  );
+
+  return { code, assigned, severity, issues, duplicates };
+}
@@ -0,0 +1,70 @@
+import { FIRBoundaryCollection, FIRBoundaryFeature } from './fir-detection';
+import { VatspyFIR, VatspyUIR } from './vatspy-parser';
+
+// Upper information regions from the VATSpy [UIRs] section, each with one
+// MultiPolygon made of its member FIRs' boundaries so it can be tested and
+// drawn like any FIR.
+
+export interface UIRBoundary extends VatspyUIR {
+  feature: FIRBoundaryFeature | null; // null when none of the member FIRs has a boundary
+  missingFirs: string[]; // members without a boundary in Boundaries.geojson
+}
+
+export function buildUIRBoundaries(uirs: VatspyUIR[], firs: VatspyFIR[], boundaries: FIRBoundaryCollection): UIRBoundary[] {
+  const featuresById = new Map<string, FIRBoundaryFeature[]>();
+  for (const feature of boundaries.features) {
+    const id = feature.properties.id;
+    featuresById.set(id, (featuresById.get(id) ?? []).concat(feature));
+  }
+
+  // A member is usually named by its FIR ICAO code; the boundary id can differ
+  const boundaryIds = new Map<string, string>();
+  for (const fir of firs) {
+    if (!boundaryIds.has(fir.icao)) {
+      boundaryIds.set(fir.icao, fir.boundary);
+    }
+  }
+
+  return uirs.map(uir => {
+    const polygons: number[][][][] = [];
+    const members: FIRBoundaryFeature[] = [];
+    const missingFirs: string[] = [];
+
+    for (const code of uir.firs) {
+      const features = featuresById.get(boundaryIds.get(code) ?? code) ?? featuresById.get(code);
+      if (!features) {
+        missingFirs.push(code);
+        continue;
+      }
+      for (const feature of features) {
+        members.push(feature);
+        if (feature.geometry.type === 'Polygon') {
+          polygons.push(feature.geometry.coordinates);
+        } else {
+          polygons.push(...feature.geometry.coordinates);
+        }
+      }
+    }
+
+    if (members.length === 0) {
+      return { ...uir, feature: null, missingFirs };
+    }
+
+    // Label at the middle of the member FIR labels
+    const average = (key: 'label_lat' | 'label_lon') =>
+      (members.reduce((sum, feature) => sum + parseFloat(feature.properties[key]), 0) / members.length).toFixed(4);
+
+    const feature: FIRBoundaryFeature = {
+      type: 'Feature',
+      properties: {
+        id: uir.id,
+        oceanic: members.every(member => member.properties.oceanic === '1') ? '1' : '0',
+        label_lat: average('label_lat'),
+        label_lon: average('label_lon')
+      },
+      geometry: { type: 'MultiPolygon', coordinates: polygons }
+    };
+
+    return { ...uir, feature, missingFirs };
+  });
+}
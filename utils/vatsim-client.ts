@@ -0,0 +1,172 @@
+import { EmergencyMonitorResult, NetworkPositionsResult, PilotLookupResult, PrefileLookupResult, VatsimData, WatchlistEntry, WatchlistLookupResult } from '../types/vatsim';
+
+// Browser-side access to the shared VATSIM feed served by /api/vatsim-data and
+// the per-flight lookups. The last response is kept together with its ETag so
+// repeated refreshes between feed updates only cost a 304.
+
+const VATSIM_DATA_ENDPOINT = '/api/vatsim-data';
+
+let cachedEtag: string | null = null;
+let cachedData: VatsimData | null = null;
+let inFlightRequest: Promise<VatsimData> | null = null;
+
+// Prefer the server's explanation (e.g. an upstream schema change) over a bare status code
+async function responseError(response: Response): Promise<Error> {
+  try {
+    const body = await response.json();
+    if (body && typeof body.error === 'string') {
+      return new Error(body.error);
+    }
+  } catch {
+    // Not JSON - fall through to the status line
+  }
+  return new Error(`Network error: ${response.status} ${response.statusText}`);
+}
+
+async function requestVatsimData(): Promise<VatsimData> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/json'
+  };
+  if (cachedEtag && cachedData) {
+    headers['If-None-Match'] = cachedEtag;
+  }
+
+  // no-store keeps the browser cache out of the way so our own 304 handling applies
+  const response = await fetch(VATSIM_DATA_ENDPOINT, {
+    method: 'GET',
+    headers,
+    cache: 'no-store'
+  });
+
+  if (response.status === 304 && cachedData) {
+    return cachedData;
+  }
+
+  if (!response.ok) {
+    throw await responseError(response);
+  }
+
+  const data: VatsimData = await response.json();
+  cachedEtag = response.headers.get('ETag');
+  cachedData = data;
+  return data;
+}
+
+// Fetch the latest VATSIM data, sharing one request between concurrent callers.
+// The shared request ignores any one caller's signal; aborting only stops that caller waiting.
+export async function fetchVatsimData(signal?: AbortSignal): Promise<VatsimData> {
+  if (!inFlightRequest) {
+    inFlightRequest = requestVatsimData().finally(() => {
+      inFlightRequest = null;
+    });
+  }
+  if (!signal) {
+    return inFlightRequest;
+  }
+
+  const request = inFlightRequest;
+  return new Promise<VatsimData>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    request.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Matches MAX_ENTRIES in app/api/watchlist/route.ts
+const WATCHLIST_BATCH_SIZE = 50;
+
+// Last successful lookup per URL, revalidated with its ETag
+const lookupCache = new Map<string, { etag: string; data: unknown }>();
+
+async function requestLookup<T>(url: string, signal?: AbortSignal): Promise<T | null> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/json'
+  };
+  const cached = lookupCache.get(url);
+  if (cached) {
+    headers['If-None-Match'] = cached.etag;
+  }
+
+  const response = await fetch(url, {
+    method: 'GET',
+    headers,
+    cache: 'no-store',
+    signal
+  });
+
+  if (response.status === 304 && cached) {
+    return cached.data as T;
+  }
+
+  if (response.status === 404) {
+    lookupCache.delete(url);
+    return null;
+  }
+
+  if (!response.ok) {
+    throw await responseError(response);
+  }
+
+  const data: T = await response.json();
+  const etag = response.headers.get('ETag');
+  if (etag) {
+    lookupCache.set(url, { etag, data });
+  }
+  return data;
+}
+
+// Look up a single online pilot with server-side enrichment; null when offline
+export function fetchPilotByCallsign(callsign: string, signal?: AbortSignal): Promise<PilotLookupResult | null> {
+  return requestLookup<PilotLookupResult>(`/api/pilot/callsign/${encodeURIComponent(callsign.trim().toUpperCase())}`, signal);
+}
+
+export function fetchPilotByCID(cid: string, signal?: AbortSignal): Promise<PilotLookupResult | null> {
+  return requestLookup<PilotLookupResult>(`/api/pilot/cid/${encodeURIComponent(cid.trim())}`, signal);
+}
+
+// Flight plans filed ahead of connecting; null when nothing is filed
+export function fetchPrefileByCallsign(callsign: string, signal?: AbortSignal): Promise<PrefileLookupResult | null> {
+  return requestLookup<PrefileLookupResult>(`/api/prefile/callsign/${encodeURIComponent(callsign.trim().toUpperCase())}`, signal);
+}
+
+export function fetchPrefileByCID(cid: string, signal?: AbortSignal): Promise<PrefileLookupResult | null> {
+  return requestLookup<PrefileLookupResult>(`/api/prefile/cid/${encodeURIComponent(cid.trim())}`, signal);
+}
+
+// Status of every watchlist entry in one request
+export async function fetchWatchlistStatuses(entries: WatchlistEntry[], signal?: AbortSignal): Promise<WatchlistLookupResult> {
+  // The endpoint takes at most WATCHLIST_BATCH_SIZE entries, so longer lists go out in batches
+  const batches: WatchlistEntry[][] = [];
+  for (let i = 0; i < entries.length; i += WATCHLIST_BATCH_SIZE) {
+    batches.push(entries.slice(i, i + WATCHLIST_BATCH_SIZE));
+  }
+
+  const results = await Promise.all(batches.map(batch => {
+    const keys = batch.map(entry => `${entry.kind}:${entry.value}`).join(',');
+    return requestLookup<WatchlistLookupResult>(`/api/watchlist?entries=${encodeURIComponent(keys)}`, signal);
+  }));
+
+  const merged: WatchlistLookupResult = { statuses: {}, updateTimestamp: new Date().toISOString() };
+  results.forEach(result => {
+    if (!result) return;
+    Object.assign(merged.statuses, result.statuses);
+    merged.updateTimestamp = result.updateTimestamp;
+  });
+  return merged;
+}
+
+// Every pilot on the network squawking 7500/7600/7700
+export async function fetchEmergencySquawks(signal?: AbortSignal): Promise<EmergencyMonitorResult> {
+  const result = await requestLookup<EmergencyMonitorResult>('/api/emergencies', signal);
+  return result ?? { emergencies: [], updateTimestamp: new Date().toISOString() };
+}
+
+// Callsign and position of every pilot, without the rest of the feed
+export async function fetchNetworkPositions(signal?: AbortSignal): Promise<NetworkPositionsResult> {
+  const result = await requestLookup<NetworkPositionsResult>('/api/positions', signal);
+  return result ?? { positions: [], updateTimestamp: new Date().toISOString() };
+}
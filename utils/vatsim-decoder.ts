@@ -0,0 +1,300 @@
+import {
+  VatsimATIS,
+  VatsimController,
+  VatsimData,
+  VatsimFacility,
+  VatsimFlightPlan,
+  VatsimGeneral,
+  VatsimPilot,
+  VatsimPilotRating,
+  VatsimPrefile,
+  VatsimRating,
+  VatsimServer,
+  VatsimTransceiver,
+  VatsimTransceiverEntry
+} from '../types/vatsim';
+
+// Runtime validation for the VATSIM v3 feeds.
+// Fields we model must be present with the expected type; extra fields are
+// ignored so additive upstream changes keep working. A malformed pilot,
+// controller, ATIS, prefile or transceiver record is logged and skipped; only
+// a list where no record decodes is treated as a schema change.
+
+export class VatsimFeedError extends Error {
+  constructor(public path: string, expected: string, actual: unknown) {
+    super(`Invalid VATSIM feed at ${path}: expected ${expected}, got ${describe(actual)}`);
+    this.name = 'VatsimFeedError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 20 ? value.slice(0, 20) + '…' : value}"`;
+  return typeof value;
+}
+
+type Fields = Record<string, unknown>;
+
+function object(value: unknown, path: string): Fields {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new VatsimFeedError(path, 'object', value);
+  }
+  return value as Fields;
+}
+
+function array<T>(value: unknown, path: string, decodeItem: (item: unknown, path: string) => T): T[] {
+  if (!Array.isArray(value)) {
+    throw new VatsimFeedError(path, 'array', value);
+  }
+  return value.map((item, index) => decodeItem(item, `${path}[${index}]`));
+}
+
+// Like array, but one bad record doesn't reject the whole feed
+function records<T>(value: unknown, path: string, decodeItem: (item: unknown, path: string) => T): T[] {
+  if (!Array.isArray(value)) {
+    throw new VatsimFeedError(path, 'array', value);
+  }
+
+  const decoded: T[] = [];
+  const errors: VatsimFeedError[] = [];
+  value.forEach((item, index) => {
+    try {
+      decoded.push(decodeItem(item, `${path}[${index}]`));
+    } catch (error) {
+      if (!(error instanceof VatsimFeedError)) throw error;
+      errors.push(error);
+    }
+  });
+
+  if (errors.length > 0) {
+    if (decoded.length === 0) throw errors[0];
+    console.error(`Skipped ${errors.length} invalid record(s) in ${path}, first: ${errors[0].message}`);
+  }
+  return decoded;
+}
+
+function string(fields: Fields, key: string, path: string): string {
+  const value = fields[key];
+  if (typeof value !== 'string') {
+    throw new VatsimFeedError(`${path}.${key}`, 'string', value);
+  }
+  return value;
+}
+
+function number(fields: Fields, key: string, path: string): number {
+  const value = fields[key];
+  if (typeof value !== 'number' || isNaN(value)) {
+    throw new VatsimFeedError(`${path}.${key}`, 'number', value);
+  }
+  return value;
+}
+
+function boolean(fields: Fields, key: string, path: string): boolean {
+  const value = fields[key];
+  if (typeof value !== 'boolean') {
+    throw new VatsimFeedError(`${path}.${key}`, 'boolean', value);
+  }
+  return value;
+}
+
+function timestamp(fields: Fields, key: string, path: string): string {
+  const value = string(fields, key, path);
+  if (isNaN(Date.parse(value))) {
+    throw new VatsimFeedError(`${path}.${key}`, 'ISO timestamp', value);
+  }
+  return value;
+}
+
+function decodeGeneral(value: unknown, path: string): VatsimGeneral {
+  const fields = object(value, path);
+  return {
+    version: number(fields, 'version', path),
+    reload: number(fields, 'reload', path),
+    update: string(fields, 'update', path),
+    update_timestamp: timestamp(fields, 'update_timestamp', path),
+    connected_clients: number(fields, 'connected_clients', path),
+    unique_users: number(fields, 'unique_users', path)
+  };
+}
+
+function decodeFlightPlan(value: unknown, path: string): VatsimFlightPlan {
+  const fields = object(value, path);
+  const flightPlan: VatsimFlightPlan = {
+    flight_rules: string(fields, 'flight_rules', path),
+    aircraft: string(fields, 'aircraft', path),
+    aircraft_faa: string(fields, 'aircraft_faa', path),
+    aircraft_short: string(fields, 'aircraft_short', path),
+    departure: string(fields, 'departure', path),
+    arrival: string(fields, 'arrival', path),
+    alternate: string(fields, 'alternate', path),
+    cruise_tas: string(fields, 'cruise_tas', path),
+    altitude: string(fields, 'altitude', path),
+    deptime: string(fields, 'deptime', path),
+    enroute_time: string(fields, 'enroute_time', path),
+    fuel_time: string(fields, 'fuel_time', path),
+    remarks: string(fields, 'remarks', path),
+    route: string(fields, 'route', path),
+    revision_id: number(fields, 'revision_id', path)
+  };
+  if (fields.assigned_transponder !== undefined && fields.assigned_transponder !== null) {
+    flightPlan.assigned_transponder = string(fields, 'assigned_transponder', path);
+  }
+  return flightPlan;
+}
+
+function decodePilot(value: unknown, path: string): VatsimPilot {
+  const fields = object(value, path);
+  const pilot: VatsimPilot = {
+    cid: number(fields, 'cid', path),
+    name: string(fields, 'name', path),
+    callsign: string(fields, 'callsign', path),
+    server: string(fields, 'server', path),
+    pilot_rating: number(fields, 'pilot_rating', path),
+    military_rating: number(fields, 'military_rating', path),
+    latitude: number(fields, 'latitude', path),
+    longitude: number(fields, 'longitude', path),
+    altitude: number(fields, 'altitude', path),
+    groundspeed: number(fields, 'groundspeed', path),
+    transponder: string(fields, 'transponder', path),
+    heading: number(fields, 'heading', path),
+    qnh_i_hg: number(fields, 'qnh_i_hg', path),
+    qnh_mb: number(fields, 'qnh_mb', path),
+    logon_time: timestamp(fields, 'logon_time', path),
+    last_updated: timestamp(fields, 'last_updated', path)
+  };
+  // Pilots without a flight plan have flight_plan: null
+  if (fields.flight_plan !== null && fields.flight_plan !== undefined) {
+    pilot.flight_plan = decodeFlightPlan(fields.flight_plan, `${path}.flight_plan`);
+  }
+  return pilot;
+}
+
+function decodeTextAtis(fields: Fields, path: string): string[] | null {
+  if (fields.text_atis === null || fields.text_atis === undefined) {
+    return null;
+  }
+  return array(fields.text_atis, `${path}.text_atis`, (line, linePath) => {
+    if (typeof line !== 'string') {
+      throw new VatsimFeedError(linePath, 'string', line);
+    }
+    return line;
+  });
+}
+
+function decodeController(value: unknown, path: string): VatsimController {
+  const fields = object(value, path);
+  return {
+    cid: number(fields, 'cid', path),
+    name: string(fields, 'name', path),
+    callsign: string(fields, 'callsign', path),
+    frequency: string(fields, 'frequency', path),
+    facility: number(fields, 'facility', path),
+    rating: number(fields, 'rating', path),
+    server: string(fields, 'server', path),
+    visual_range: number(fields, 'visual_range', path),
+    text_atis: decodeTextAtis(fields, path),
+    last_updated: timestamp(fields, 'last_updated', path),
+    logon_time: timestamp(fields, 'logon_time', path)
+  };
+}
+
+function decodeATIS(value: unknown, path: string): VatsimATIS {
+  const fields = object(value, path);
+  const atisCode = fields.atis_code;
+  if (atisCode !== null && atisCode !== undefined && typeof atisCode !== 'string') {
+    throw new VatsimFeedError(`${path}.atis_code`, 'string or null', atisCode);
+  }
+  return {
+    ...decodeController(value, path),
+    atis_code: typeof atisCode === 'string' ? atisCode : null
+  };
+}
+
+function decodeServer(value: unknown, path: string): VatsimServer {
+  const fields = object(value, path);
+  return {
+    ident: string(fields, 'ident', path),
+    hostname_or_ip: string(fields, 'hostname_or_ip', path),
+    location: string(fields, 'location', path),
+    name: string(fields, 'name', path),
+    clients_connection_allowed: number(fields, 'clients_connection_allowed', path),
+    client_connections_allowed: boolean(fields, 'client_connections_allowed', path),
+    is_sweatbox: boolean(fields, 'is_sweatbox', path)
+  };
+}
+
+function decodePrefile(value: unknown, path: string): VatsimPrefile {
+  const fields = object(value, path);
+  return {
+    cid: number(fields, 'cid', path),
+    name: string(fields, 'name', path),
+    callsign: string(fields, 'callsign', path),
+    flight_plan: decodeFlightPlan(fields.flight_plan, `${path}.flight_plan`),
+    last_updated: timestamp(fields, 'last_updated', path)
+  };
+}
+
+function decodeFacility(value: unknown, path: string): VatsimFacility {
+  const fields = object(value, path);
+  return {
+    id: number(fields, 'id', path),
+    short: string(fields, 'short', path),
+    long: string(fields, 'long', path)
+  };
+}
+
+function decodeRating(value: unknown, path: string): VatsimRating {
+  return decodeFacility(value, path);
+}
+
+function decodePilotRating(value: unknown, path: string): VatsimPilotRating {
+  const fields = object(value, path);
+  return {
+    id: number(fields, 'id', path),
+    short_name: string(fields, 'short_name', path),
+    long_name: string(fields, 'long_name', path)
+  };
+}
+
+// Validate and normalize a parsed vatsim-data.json document
+export function decodeVatsimData(json: unknown): VatsimData {
+  const fields = object(json, 'root');
+  return {
+    general: decodeGeneral(fields.general, 'general'),
+    pilots: records(fields.pilots, 'pilots', decodePilot),
+    controllers: records(fields.controllers, 'controllers', decodeController),
+    atis: records(fields.atis, 'atis', decodeATIS),
+    servers: array(fields.servers, 'servers', decodeServer),
+    prefiles: records(fields.prefiles, 'prefiles', decodePrefile),
+    facilities: array(fields.facilities, 'facilities', decodeFacility),
+    ratings: array(fields.ratings, 'ratings', decodeRating),
+    pilot_ratings: array(fields.pilot_ratings, 'pilot_ratings', decodePilotRating),
+    military_ratings: array(fields.military_ratings, 'military_ratings', decodePilotRating)
+  };
+}
+
+function decodeTransceiver(value: unknown, path: string): VatsimTransceiver {
+  const fields = object(value, path);
+  return {
+    id: number(fields, 'id', path),
+    frequency: number(fields, 'frequency', path),
+    latDeg: number(fields, 'latDeg', path),
+    lonDeg: number(fields, 'lonDeg', path),
+    heightMslM: number(fields, 'heightMslM', path),
+    heightAglM: number(fields, 'heightAglM', path)
+  };
+}
+
+function decodeTransceiverEntry(value: unknown, path: string): VatsimTransceiverEntry {
+  const fields = object(value, path);
+  return {
+    callsign: string(fields, 'callsign', path),
+    transceivers: array(fields.transceivers, `${path}.transceivers`, decodeTransceiver)
+  };
+}
+
+// Validate a parsed transceivers-data.json document
+export function decodeTransceivers(json: unknown): VatsimTransceiverEntry[] {
+  return records(json, 'transceivers', decodeTransceiverEntry);
+}
@@ -0,0 +1,209 @@
+// Server-side poller for the VATSIM v3 data feed.
+// Keeps a single cached snapshot so every API route reads from the same copy
+// instead of each client hitting data.vatsim.net on its own.
+
+import { VatsimData, VatsimTransceiverEntry } from '../types/vatsim';
+import { decodeTransceivers, decodeVatsimData } from './vatsim-decoder';
+
+const VATSIM_DATA_URL = 'https://data.vatsim.net/v3/vatsim-data.json';
+const VATSIM_TRANSCEIVERS_URL = 'https://data.vatsim.net/v3/transceivers-data.json';
+
+// VATSIM regenerates the feed every 15 seconds
+const FEED_UPDATE_INTERVAL_MS = 15000;
+// Give the upstream CDN a moment to publish the new file before polling
+const PUBLISH_GRACE_MS = 2000;
+// Retry delay when the feed has not moved on yet or the request failed
+const RETRY_DELAY_MS = 5000;
+// Stop polling once nobody has asked for the feed for this long
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface VatsimFeedSnapshot {
+  data: VatsimData;
+  etag: string;
+  updateTimestamp: string;
+  fetchedAt: number;
+}
+
+let latestSnapshot: VatsimFeedSnapshot | null = null;
+let inFlightRequest: Promise<VatsimFeedSnapshot> | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let lastRequestedAt = 0;
+const snapshotListeners: ((snapshot: VatsimFeedSnapshot) => void)[] = [];
+
+// Everything served from one feed update shares the same ETag
+export const feedEtag = (updateTimestamp: string): string => `"${Date.parse(updateTimestamp)}"`;
+
+async function fetchFeed(): Promise<VatsimFeedSnapshot> {
+  const response = await fetch(VATSIM_DATA_URL, {
+    headers: {
+      'User-Agent': 'VATSIM-FPN-Lookup-App/1.0'
+    },
+    cache: 'no-store'
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch VATSIM data: ${response.status} ${response.statusText}`);
+  }
+
+  // Throws a VatsimFeedError naming the offending field if the upstream schema changed
+  const data = decodeVatsimData(await response.json());
+  const updateTimestamp = data.general.update_timestamp;
+
+  // Different CDN nodes can briefly serve an older copy - never go backwards
+  if (latestSnapshot && Date.parse(updateTimestamp) <= Date.parse(latestSnapshot.updateTimestamp)) {
+    latestSnapshot.fetchedAt = Date.now();
+    return latestSnapshot;
+  }
+
+  latestSnapshot = {
+    data,
+    etag: feedEtag(updateTimestamp),
+    updateTimestamp,
+    fetchedAt: Date.now()
+  };
+
+  for (const listener of snapshotListeners.slice()) {
+    try {
+      listener(latestSnapshot);
+    } catch (error) {
+      console.error('Error in VATSIM snapshot listener:', error);
+    }
+  }
+
+  return latestSnapshot;
+}
+
+// Share one upstream request between all callers that need fresh data at the same time
+function refreshSnapshot(): Promise<VatsimFeedSnapshot> {
+  if (!inFlightRequest) {
+    inFlightRequest = fetchFeed().finally(() => {
+      inFlightRequest = null;
+    });
+  }
+  return inFlightRequest;
+}
+
+// Time until the next feed update is expected, based on the last update_timestamp
+function getNextPollDelay(): number {
+  if (!latestSnapshot) {
+    return RETRY_DELAY_MS;
+  }
+
+  const nextUpdate = Date.parse(latestSnapshot.updateTimestamp) + FEED_UPDATE_INTERVAL_MS + PUBLISH_GRACE_MS;
+  const delay = nextUpdate - Date.now();
+
+  return delay > 0 ? Math.min(delay, FEED_UPDATE_INTERVAL_MS) : RETRY_DELAY_MS;
+}
+
+function schedulePoll(delay: number) {
+  pollTimer = setTimeout(async () => {
+    let nextDelay = RETRY_DELAY_MS;
+    try {
+      await refreshSnapshot();
+      nextDelay = getNextPollDelay();
+    } catch (error) {
+      console.error('Error polling VATSIM data:', error);
+    }
+
+    // Nobody is using the feed - the next request starts the poller again
+    if (Date.now() - lastRequestedAt > IDLE_TIMEOUT_MS) {
+      pollTimer = null;
+      return;
+    }
+    schedulePoll(nextDelay);
+  }, delay);
+}
+
+function isStale(snapshot: VatsimFeedSnapshot): boolean {
+  // The poller keeps the snapshot current; only treat it as stale if it has missed an update
+  return Date.now() - Date.parse(snapshot.updateTimestamp) > FEED_UPDATE_INTERVAL_MS * 2 &&
+         Date.now() - snapshot.fetchedAt > RETRY_DELAY_MS;
+}
+
+// Get the latest feed snapshot. The background poller runs while snapshots are
+// being asked for and stops after IDLE_TIMEOUT_MS without a request.
+export async function getVatsimSnapshot(): Promise<VatsimFeedSnapshot> {
+  lastRequestedAt = Date.now();
+  if (!pollTimer) {
+    schedulePoll(getNextPollDelay());
+  }
+
+  if (latestSnapshot && !isStale(latestSnapshot)) {
+    return latestSnapshot;
+  }
+
+  try {
+    return await refreshSnapshot();
+  } catch (error) {
+    // Serve the last good copy rather than failing every client while upstream is down
+    if (latestSnapshot) {
+      console.error('Serving stale VATSIM data after refresh failure:', error);
+      return latestSnapshot;
+    }
+    throw error;
+  }
+}
+
+// Run a callback for every new feed update while the feed is being polled.
+// Listening alone doesn't keep the poller running. Returns an unsubscribe function.
+export function onSnapshot(listener: (snapshot: VatsimFeedSnapshot) => void): () => void {
+  snapshotListeners.push(listener);
+  return () => {
+    const index = snapshotListeners.indexOf(listener);
+    if (index >= 0) snapshotListeners.splice(index, 1);
+  };
+}
+
+// If-None-Match holds a comma-separated list of ETags, each possibly weak (W/"...").
+// It uses the weak comparison, so W/"1" matches "1".
+export function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+
+  const opaque = (tag: string) => tag.replace(/^W\//, '');
+  const candidates = ifNoneMatch.match(/(?:W\/)?"[^"]*"/g) ?? [];
+  return candidates.some(candidate => opaque(candidate) === opaque(etag));
+}
+
+let cachedTransceivers: { data: VatsimTransceiverEntry[]; fetchedAt: number } | null = null;
+let inFlightTransceivers: Promise<VatsimTransceiverEntry[]> | null = null;
+
+async function fetchTransceivers(): Promise<VatsimTransceiverEntry[]> {
+  const response = await fetch(VATSIM_TRANSCEIVERS_URL, {
+    headers: {
+      'User-Agent': 'VATSIM-FPN-Lookup-App/1.0'
+    },
+    cache: 'no-store'
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch transceivers data: ${response.status} ${response.statusText}`);
+  }
+
+  const data = decodeTransceivers(await response.json());
+  cachedTransceivers = { data, fetchedAt: Date.now() };
+  return data;
+}
+
+// Get the transceivers feed, refreshed at most once per feed update interval
+export async function getTransceivers(): Promise<VatsimTransceiverEntry[]> {
+  if (cachedTransceivers && Date.now() - cachedTransceivers.fetchedAt < FEED_UPDATE_INTERVAL_MS) {
+    return cachedTransceivers.data;
+  }
+
+  if (!inFlightTransceivers) {
+    inFlightTransceivers = fetchTransceivers().finally(() => {
+      inFlightTransceivers = null;
+    });
+  }
+
+  try {
+    return await inFlightTransceivers;
+  } catch (error) {
+    if (cachedTransceivers) {
+      console.error('Serving stale transceivers data after refresh failure:', error);
+      return cachedTransceivers.data;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  parseVatspyAirportCodes,
+  parseVatspyAirports,
+  parseVatspyFIRNames,
+  parseVatspyFIRs,
+  parseVatspyUIRs,
+  VatspyAirport,
+  VatspyAirportCode,
+  VatspyFIR,
+  VatspyUIR
+} from './vatspy-parser';
+import { FIRBoundaryCollection } from './fir-detection';
+import { buildUIRBoundaries, UIRBoundary } from './uir-boundaries';
+
+// Server-side access to the VATSpy files that the browser loads from /vatspy-data
+const VATSPY_DATA_DIR = path.join(process.cwd(), 'public', 'vatspy-data');
+
+let vatspyDatPromise: Promise<string> | null = null;
+let boundariesPromise: Promise<FIRBoundaryCollection> | null = null;
+let cachedAirports: Map<string, VatspyAirport> | null = null;
+let cachedFIRNames: Map<string, string> | null = null;
+let cachedFIRs: VatspyFIR[] | null = null;
+let cachedUIRs: VatspyUIR[] | null = null;
+let cachedUIRBoundaries: UIRBoundary[] | null = null;
+let cachedAirportCodes: Map<string, VatspyAirportCode> | null = null;
+
+export function readVatspyDat(): Promise<string> {
+  if (!vatspyDatPromise) {
+    vatspyDatPromise = fs.readFile(path.join(VATSPY_DATA_DIR, 'VATSpy.dat'), 'utf8').catch(error => {
+      vatspyDatPromise = null;
+      throw error;
+    });
+  }
+  return vatspyDatPromise;
+}
+
+export function readBoundaries(): Promise<FIRBoundaryCollection> {
+  if (!boundariesPromise) {
+    boundariesPromise = fs.readFile(path.join(VATSPY_DATA_DIR, 'Boundaries.geojson'), 'utf8')
+      .then(text => JSON.parse(text) as FIRBoundaryCollection)
+      .catch(error => {
+        boundariesPromise = null;
+        throw error;
+      });
+  }
+  return boundariesPromise;
+}
+
+export async function getServerAirports(): Promise<Map<string, VatspyAirport>> {
+  if (!cachedAirports) {
+    cachedAirports = parseVatspyAirports(await readVatspyDat());
+  }
+  return cachedAirports;
+}
+
+export async function getServerFIRNames(): Promise<Map<string, string>> {
+  if (!cachedFIRNames) {
+    cachedFIRNames = parseVatspyFIRNames(await readVatspyDat());
+  }
+  return cachedFIRNames;
+}
+
+export async function getServerFIRs(): Promise<VatspyFIR[]> {
+  if (!cachedFIRs) {
+    cachedFIRs = parseVatspyFIRs(await readVatspyDat());
+  }
+  return cachedFIRs;
+}
+
+export async function getServerUIRs(): Promise<VatspyUIR[]> {
+  if (!cachedUIRs) {
+    cachedUIRs = parseVatspyUIRs(await readVatspyDat());
+  }
+  return cachedUIRs;
+}
+
+// UIRs with their member FIR boundaries merged into one polygon each
+export async function getServerUIRBoundaries(): Promise<UIRBoundary[]> {
+  if (!cachedUIRBoundaries) {
+    const [uirs, firs, boundaries] = await Promise.all([getServerUIRs(), getServerFIRs(), readBoundaries()]);
+    cachedUIRBoundaries = buildUIRBoundaries(uirs, firs, boundaries);
+  }
+  return cachedUIRBoundaries;
+}
+
+export async function getServerAirportCodes(): Promise<Map<string, VatspyAirportCode>> {
+  if (!cachedAirportCodes) {
+    cachedAirportCodes = parseVatspyAirportCodes(await readVatspyDat());
+  }
+  return cachedAirportCodes;
+}
@@ -10,65 +10,177 @@ export interface VatspyAirport {
 
 let cachedAirports: Map<string, VatspyAirport> | null = null;
 
-export async function parseVatspyData(): Promise<Map<string, VatspyAirport>> {
-  if (cachedAirports) {
-    return cachedAirports;
-  }
-
+// Parse the [Airports] section of a VATSpy.dat file
+export function parseVatspyAirports(fileContent: string): Map<string, VatspyAirport> {
   const airports = new Map<string, VatspyAirport>();
+  const lines = fileContent.split('\n');
   
-  try {
-    // Fetch the VATSpy.dat file from the public folder
-    const response = await fetch('/vatspy-data/VATSpy.dat');
-    const fileContent = await response.text();
-    const lines = fileContent.split('\n');
+  let inAirportsSection = false;
+  
+  for (const line of lines) {
+    const trimmedLine = line.trim();
     
-    let inAirportsSection = false;
+    // Skip empty lines and comments
+    if (!trimmedLine || trimmedLine.startsWith(';')) {
+      continue;
+    }
     
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      // Skip empty lines and comments
-      if (!trimmedLine || trimmedLine.startsWith(';')) {
-        continue;
-      }
-      
-      // Check for section headers
-      if (trimmedLine.startsWith('[') && trimmedLine.endsWith(']')) {
-        inAirportsSection = trimmedLine === '[Airports]';
-        continue;
-      }
+    // Check for section headers
+    if (trimmedLine.startsWith('[') && trimmedLine.endsWith(']')) {
+      inAirportsSection = trimmedLine === '[Airports]';
+      continue;
+    }
+    
+    // Only process lines when we're in the Airports section
+    if (!inAirportsSection) {
+      continue;
+    }
+    
+    // Parse airport line: ICAO|Name|Lat|Lon|IATA|FIR|IsPseudo
+    const parts = trimmedLine.split('|');
+    if (parts.length >= 7) {
+      const icao = parts[0].trim();
+      const name = parts[1].trim();
+      const latitude = parseFloat(parts[2]);
+      const longitude = parseFloat(parts[3]);
+      const iata = parts[4].trim() || undefined;
+      const fir = parts[5].trim();
+      const isPseudo = parts[6].trim() === '1';
       
-      // Only process lines when we're in the Airports section
-      if (!inAirportsSection) {
-        continue;
+      // Only include real airports (not pseudo), and prioritize the first occurrence
+      if (!isPseudo && !airports.has(icao) && icao && name) {
+        airports.set(icao, {
+          icao,
+          name,
+          latitude,
+          longitude,
+          iata,
+          fir,
+          isPseudo: false
+        });
       }
-      
-      // Parse airport line: ICAO|Name|Lat|Lon|IATA|FIR|IsPseudo
+    }
+  }
+  
+  return airports;
+}
+
+// Parse the [FIRs] section of a VATSpy.dat file into FIR ID -> name
+export function parseVatspyFIRNames(fileContent: string): Map<string, string> {
+  const firNames = new Map<string, string>();
+  let inFIRSection = false;
+  
+  for (const line of fileContent.split('\n')) {
+    const trimmedLine = line.trim();
+    
+    if (trimmedLine === '[FIRs]') {
+      inFIRSection = true;
+      continue;
+    }
+    
+    if (trimmedLine.startsWith('[') && trimmedLine !== '[FIRs]') {
+      inFIRSection = false;
+      continue;
+    }
+    
+    if (inFIRSection && trimmedLine && !trimmedLine.startsWith(';')) {
       const parts = trimmedLine.split('|');
-      if (parts.length >= 7) {
-        const icao = parts[0].trim();
-        const name = parts[1].trim();
-        const latitude = parseFloat(parts[2]);
-        const longitude = parseFloat(parts[3]);
-        const iata = parts[4].trim() || undefined;
-        const fir = parts[5].trim();
-        const isPseudo = parts[6].trim() === '1';
+      if (parts.length >= 2) {
+        const firId = parts[0];
+        const firName = parts[1];
         
-        // Only include real airports (not pseudo), and prioritize the first occurrence
-        if (!isPseudo && !airports.has(icao) && icao && name) {
-          airports.set(icao, {
-            icao,
-            name,
-            latitude,
-            longitude,
-            iata,
-            fir,
-            isPseudo: false
-          });
+        // Only store the first occurrence (primary name) for each FIR ID
+        if (!firNames.has(firId)) {
+          firNames.set(firId, firName);
         }
       }
     }
+  }
+  
+  return firNames;
+}
+
+export interface VatspyFIR {
+  icao: string; // e.g. "EDMM-ZUG" for a split sector
+  name: string;
+  callsignPrefix: string; // empty when controllers use the ICAO code
+  boundary: string; // feature id in Boundaries.geojson
+}
+
+export interface VatspyUIR {
+  id: string; // also the controller callsign prefix, e.g. "ADR_U"
+  name: string;
+  firs: string[]; // ICAO codes of the FIRs it sits above
+}
+
+// Data lines of one [Section] of a VATSpy.dat file, split on '|'
+function sectionRows(fileContent: string, section: string): string[][] {
+  const rows: string[][] = [];
+  let inSection = false;
+
+  for (const line of fileContent.split('\n')) {
+    const trimmedLine = line.trim();
+    if (trimmedLine.startsWith('[') && trimmedLine.endsWith(']')) {
+      inSection = trimmedLine === `[${section}]`;
+      continue;
+    }
+    if (inSection && trimmedLine && !trimmedLine.startsWith(';')) {
+      rows.push(trimmedLine.split('|').map(part => part.trim()));
+    }
+  }
+
+  return rows;
+}
+
+// Parse the [FIRs] section keeping every callsign prefix line: ICAO|Name|Prefix|Boundary
+export function parseVatspyFIRs(fileContent: string): VatspyFIR[] {
+  return sectionRows(fileContent, 'FIRs')
+    .filter(parts => parts.length >= 4 && parts[0])
+    .map(([icao, name, callsignPrefix, boundary]) => ({ icao, name, callsignPrefix, boundary: boundary || icao }));
+}
+
+// Parse the [UIRs] section: ID|Name|FIR,FIR,...
+export function parseVatspyUIRs(fileContent: string): VatspyUIR[] {
+  return sectionRows(fileContent, 'UIRs')
+    .filter(parts => parts.length >= 3 && parts[0])
+    .map(([id, name, firs]) => ({ id, name, firs: firs.split(',').map(fir => fir.trim()).filter(Boolean) }));
+}
+
+// Airport a controller callsign prefix belongs to
+export interface VatspyAirportCode {
+  icao: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Callsign prefix -> airport, from every [Airports] row: the ICAO code, the IATA
+// code and the extra codes on pseudo rows (e.g. "SCT" for SOCAL approach at KLAX)
+export function parseVatspyAirportCodes(fileContent: string): Map<string, VatspyAirportCode> {
+  const codes = new Map<string, VatspyAirportCode>();
+  for (const parts of sectionRows(fileContent, 'Airports')) {
+    if (parts.length < 7 || !parts[0]) continue;
+    const airport = { icao: parts[0].toUpperCase(), latitude: parseFloat(parts[2]), longitude: parseFloat(parts[3]) };
+    for (const code of [parts[0], parts[4]]) {
+      if (code && !codes.has(code.toUpperCase())) {
+        codes.set(code.toUpperCase(), airport);
+      }
+    }
+  }
+  return codes;
+}
+
+export async function parseVatspyData(): Promise<Map<string, VatspyAirport>> {
+  if (cachedAirports) {
+    return cachedAirports;
+  }
+
+  let airports = new Map<string, VatspyAirport>();
+  
+  try {
+    // Fetch the VATSpy.dat file from the public folder
+    const response = await fetch('/vatspy-data/VATSpy.dat');
+    const fileContent = await response.text();
+    airports = parseVatspyAirports(fileContent);
   } catch (error) {
     console.error('Error parsing VATSpy data:', error);
   }
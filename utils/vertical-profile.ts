@@ -0,0 +1,146 @@
+import { AircraftEngineType, AircraftTypeInfo, PositionSample } from '../types/vatsim';
+import { calculateDistance } from './geo';
+
+// Top of descent and the altitude-vs-distance profile of a flight.
+// Distances along track are measured from the first recorded position, so the
+// actual history and the prediction share one axis.
+
+export const DEFAULT_DESCENT_GRADIENT = 3; // degrees
+export const DESCENT_GRADIENTS = [2.5, 3, 3.5];
+
+const FEET_PER_NM = 6076;
+const CLIMB_FT_PER_NM = 500;
+// Typical rate the aircraft can hold in a normal descent, in ft/min
+const DESCENT_RATES: Record<AircraftEngineType, number> = {
+  jet: 2500,
+  turboprop: 1500,
+  piston: 700,
+  turboshaft: 1000,
+  none: 500
+};
+const DEFAULT_DESCENT_RATE = 2000;
+const DESCENT_SPEED_FACTOR = 0.8; // average descent groundspeed as a share of cruise
+
+export interface TopOfDescent {
+  fromAltitude: number;
+  gradient: number; // degrees actually flown, shallower than requested when the rate limits it
+  descentDistance: number; // nm from top of descent to the arrival airport
+  distanceToGo: number; // nm from the current position, 0 once past it
+  minutesToGo: number | null; // null when not moving
+  descentRate: number; // ft/min at the expected descent speed
+}
+
+export interface ProfilePoint {
+  distance: number; // nm along track
+  altitude: number;
+}
+
+export interface VerticalProfile {
+  history: ProfilePoint[];
+  predicted: ProfilePoint[];
+  current: ProfilePoint;
+  totalDistance: number;
+  filedAltitude: number | null;
+  topOfDescent: TopOfDescent | null;
+}
+
+export interface TopOfDescentInput {
+  altitude: number;
+  cruiseAltitude: number | null;
+  distanceToArrival: number;
+  groundspeed: number;
+  gradient?: number;
+  aircraft?: AircraftTypeInfo | null;
+  arrivalElevation?: number;
+}
+
+export function predictTopOfDescent(input: TopOfDescentInput): TopOfDescent | null {
+  const { altitude, cruiseAltitude, distanceToArrival, groundspeed, aircraft = null, arrivalElevation = 0 } = input;
+  const requested = input.gradient ?? DEFAULT_DESCENT_GRADIENT;
+
+  // Still climbing: plan the descent from the filed level
+  const fromAltitude = Math.max(altitude, cruiseAltitude ?? 0);
+  const height = fromAltitude - arrivalElevation;
+  if (height <= 0) return null;
+
+  const descentSpeed = aircraft ? aircraft.cruiseSpeed * DESCENT_SPEED_FACTOR : Math.max(groundspeed, 1) * DESCENT_SPEED_FACTOR;
+  const maxRate = aircraft ? DESCENT_RATES[aircraft.engineType] : DEFAULT_DESCENT_RATE;
+
+  // The gradient the aircraft can hold is limited by its descent rate at descent speed
+  const requestedFeetPerNm = Math.tan(requested * Math.PI / 180) * FEET_PER_NM;
+  const maxFeetPerNm = maxRate / (descentSpeed / 60);
+  const feetPerNm = Math.min(requestedFeetPerNm, maxFeetPerNm);
+
+  const descentDistance = height / feetPerNm;
+  const distanceToGo = Math.max(0, distanceToArrival - descentDistance);
+
+  return {
+    fromAltitude,
+    gradient: Math.round(Math.atan(feetPerNm / FEET_PER_NM) * 180 / Math.PI * 10) / 10,
+    descentDistance: Math.round(descentDistance),
+    distanceToGo: Math.round(distanceToGo),
+    minutesToGo: groundspeed > 0 ? Math.round(distanceToGo / groundspeed * 60) : null,
+    descentRate: Math.round(feetPerNm * descentSpeed / 60)
+  };
+}
+
+export interface VerticalProfileInput extends Omit<TopOfDescentInput, 'distanceToArrival' | 'altitude' | 'groundspeed'> {
+  history: PositionSample[];
+  current: { latitude: number; longitude: number; altitude: number; groundspeed: number };
+  distanceToArrival: number;
+  descending: boolean;
+}
+
+export function buildVerticalProfile(input: VerticalProfileInput): VerticalProfile {
+  const { history, current, distanceToArrival, cruiseAltitude, descending, arrivalElevation = 0 } = input;
+
+  // Actual track: cumulative distance between recorded positions
+  const points: ProfilePoint[] = [];
+  let flown = 0;
+  history.forEach((sample, index) => {
+    if (index > 0) {
+      const previous = history[index - 1];
+      flown += calculateDistance(previous.latitude, previous.longitude, sample.latitude, sample.longitude);
+    }
+    points.push({ distance: flown, altitude: sample.altitude });
+  });
+
+  const last = history[history.length - 1];
+  if (last) {
+    flown += calculateDistance(last.latitude, last.longitude, current.latitude, current.longitude);
+  }
+  const currentPoint = { distance: flown, altitude: current.altitude };
+  points.push(currentPoint);
+
+  const totalDistance = flown + distanceToArrival;
+  const topOfDescent = predictTopOfDescent({
+    ...input,
+    altitude: current.altitude,
+    groundspeed: current.groundspeed,
+    distanceToArrival
+  });
+
+  // Prediction: climb to the filed level, hold it until top of descent, then descend
+  const predicted: ProfilePoint[] = [currentPoint];
+  if (topOfDescent && !descending) {
+    const level = topOfDescent.fromAltitude;
+    const todDistance = flown + topOfDescent.distanceToGo;
+    if (current.altitude < level) {
+      const climbDistance = Math.min((level - current.altitude) / CLIMB_FT_PER_NM, topOfDescent.distanceToGo);
+      predicted.push({ distance: flown + climbDistance, altitude: level });
+    }
+    if (todDistance > predicted[predicted.length - 1].distance) {
+      predicted.push({ distance: todDistance, altitude: level });
+    }
+  }
+  predicted.push({ distance: totalDistance, altitude: arrivalElevation });
+
+  return {
+    history: points,
+    predicted,
+    current: currentPoint,
+    totalDistance,
+    filedAltitude: cruiseAltitude,
+    topOfDescent: descending ? null : topOfDescent
+  };
+}
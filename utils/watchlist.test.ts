@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createWatchlistEntry, importWatchlist } from './watchlist';
+
+// Entries are joined into one "kind:value,..." request, so their values must stay plain
+
+describe('createWatchlistEntry', () => {
+  it('tells CIDs from callsigns', () => {
+    expect(createWatchlistEntry(' 1234567 ')?.kind).toBe('cid');
+    expect(createWatchlistEntry('baw123')).toEqual({ kind: 'callsign', value: 'BAW123', nickname: '', notifications: [] });
+  });
+
+  it('rejects values with separators or other punctuation', () => {
+    expect(createWatchlistEntry('BAW1,DLH2')).toBeNull();
+    expect(createWatchlistEntry('cid:123')).toBeNull();
+    expect(createWatchlistEntry('BAW 1')).toBeNull();
+    expect(createWatchlistEntry('   ')).toBeNull();
+  });
+});
+
+describe('importWatchlist', () => {
+  it('drops invalid entries and keeps the rest', () => {
+    const imported = importWatchlist(JSON.stringify([{ value: 'BAW1:X' }, { value: 'DLH2', nickname: 'Lufthansa' }]));
+    expect(imported).toEqual([{ kind: 'callsign', value: 'DLH2', nickname: 'Lufthansa', notifications: [] }]);
+  });
+});
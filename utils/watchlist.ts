@@ -0,0 +1,85 @@
+import { FlightEventType, WatchlistEntry } from '../types/vatsim';
+import { FLIGHT_EVENT_TYPES } from './flight-events';
+
+// Pilots followed in the watchlist, kept in localStorage. Replaces the single
+// tracked CID, which is carried over the first time the list is loaded.
+
+const STORAGE_KEY = 'watchlist';
+const LEGACY_CID_KEY = 'trackingCID';
+
+export const watchlistKey = (entry: WatchlistEntry): string => `${entry.kind}:${entry.value}`;
+
+// Digits are a CID, other letters and digits a callsign. Anything else (e.g. the "," and ":"
+// the status request uses as separators) is rejected, as one bad entry would break the whole list.
+export function createWatchlistEntry(value: string, nickname = '', notifications: FlightEventType[] = []): WatchlistEntry | null {
+  const trimmed = value.trim().toUpperCase();
+  if (!/^[A-Z0-9]+$/.test(trimmed)) return null;
+  return {
+    kind: /^\d+$/.test(trimmed) ? 'cid' : 'callsign',
+    value: trimmed,
+    nickname: nickname.trim(),
+    notifications
+  };
+}
+
+function normalizeEntries(raw: unknown): WatchlistEntry[] | null {
+  if (!Array.isArray(raw)) return null;
+
+  const entries: WatchlistEntry[] = [];
+  const seen = new Set<string>();
+  for (const item of raw) {
+    if (!item || typeof item.value !== 'string') continue;
+    const notifications = Array.isArray(item.notifications)
+      ? FLIGHT_EVENT_TYPES.filter(type => item.notifications.includes(type))
+      : [];
+    const entry = createWatchlistEntry(item.value, typeof item.nickname === 'string' ? item.nickname : '', notifications);
+    if (!entry || seen.has(watchlistKey(entry))) continue;
+    seen.add(watchlistKey(entry));
+    entries.push(entry);
+  }
+  return entries;
+}
+
+export function loadWatchlist(): WatchlistEntry[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      return normalizeEntries(JSON.parse(saved)) ?? [];
+    }
+
+    const legacyCID = localStorage.getItem(LEGACY_CID_KEY);
+    const legacy = legacyCID ? createWatchlistEntry(legacyCID) : null;
+    if (legacy) {
+      saveWatchlist([legacy]);
+      localStorage.removeItem(LEGACY_CID_KEY);
+      return [legacy];
+    }
+  } catch (error) {
+    console.error('Could not load watchlist:', error);
+  }
+  return [];
+}
+
+export function saveWatchlist(entries: WatchlistEntry[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+export function exportWatchlist(entries: WatchlistEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
+
+// Accepts an exported list; null when the file isn't one
+export function importWatchlist(json: string): WatchlistEntry[] | null {
+  try {
+    return normalizeEntries(JSON.parse(json));
+  } catch (error) {
+    console.error('Could not parse watchlist:', error);
+    return null;
+  }
+}
+
+// Add imported entries after the existing ones, skipping duplicates
+export function mergeWatchlists(current: WatchlistEntry[], imported: WatchlistEntry[]): WatchlistEntry[] {
+  const keys = new Set(current.map(watchlistKey));
+  return current.concat(imported.filter(entry => !keys.has(watchlistKey(entry))));
+}